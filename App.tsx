@@ -1,249 +1,608 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import FileUpload from './components/FileUpload';
 import MovieChart from './components/MovieChart';
 import MovieDetailsModal from './components/MovieDetailsModal';
+import TitleDrawer from './components/TitleDrawer';
 import SearchBar from './components/SearchBar';
 import SearchResults from './components/SearchResults';
 import MovieList from './components/MovieList';
-import { IMDbEntry, ChartDataPoint } from './types';
+import ImportReportPanel from './components/ImportReportPanel';
+import TitleTypeSelector from './components/TitleTypeSelector';
+import RecentImports from './components/RecentImports';
+import ExportDiffPanel from './components/ExportDiffPanel';
+import RatingTimeline from './components/RatingTimeline';
+import YearInReview from './components/YearInReview';
+import RatingComparison from './components/RatingComparison';
+import ChartControls from './components/ChartControls';
+import PeopleLeaderboard from './components/PeopleLeaderboard';
+import GenreDashboard from './components/GenreDashboard';
+import StatsPanel from './components/StatsPanel';
+import LanguageSwitcher from './components/LanguageSwitcher';
+import { useI18n } from './components/I18nProvider';
+import { Annotations, Title, TitleAnnotation, TitleType, ChartDataPoint, ChartConfig, ChartDimension, ChartMetric, ImportReport, StoredDatasetInfo, ConflictRule, ExportKind, TitleFilters, SortOption, ChartSelection, PersonRole } from './types';
+import { isImportableFile, readImportFile } from './utils/importAdapters';
+import { importTitles } from './utils/importReport';
+import { listDatasets, saveDataset, loadDataset, deleteDataset, loadAnnotations, saveAnnotation } from './utils/datasetStore';
+import { isEmptyAnnotation, withAnnotation } from './utils/annotations';
+import { mergeTitleSets, uniqueSourceNames, CONFLICT_RULES } from './utils/mergeTitles';
+import { createChartData, titlesInGroup, groupLabel } from './utils/chartData';
+import { applyFilters, createEmptyFilters } from './utils/filters';
+import { runTitleQuery, createTitleQueryRunner, TitleQueryRunner, TitleQueryResult, WORKER_THRESHOLD } from './utils/titleQuery';
+import { defaultSortFor } from './utils/sortTitles';
+import { readViewState, viewStateToUrl, isTypedChange, ViewState } from './utils/urlState';
+import { parseSearchQuery, searchTitles, buildQueryVocabulary, suggestCompletions } from './utils/searchQuery';
+import { createSearchIndex, TitleSearchIndex } from './utils/searchIndex';
 
-// A more robust CSV parser
-const parseCSV = (text: string): IMDbEntry[] => {
-    let content = text.trim();
-    // Handle Byte Order Mark (BOM)
-    if (content.charCodeAt(0) === 0xFEFF) {
-        content = content.substring(1);
-    }
+const App: React.FC = () => {
+    const { t } = useI18n();
+    const [initialView] = useState<ViewState>(() => readViewState(window.location.search, window.location.hash));
+    const [allMovies, setAllMovies] = useState<Title[]>([]);
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [isLoading, setIsLoading] = useState<boolean>(false);
+    const [loadProgress, setLoadProgress] = useState<number>(0);
+    const [importReports, setImportReports] = useState<ImportReport[]>([]);
+    const [conflictRule, setConflictRule] = useState<ConflictRule>('newest');
+    const [mergeSummary, setMergeSummary] = useState<{ conflicts: number; rule: ConflictRule } | null>(null);
+    const [selectedGroup, setSelectedGroup] = useState<ChartSelection | null>(initialView.selectedGroup);
+    const [searchTerm, setSearchTerm] = useState<string>(initialView.searchTerm);
+    const [availableColumns, setAvailableColumns] = useState<string[]>([]);
+    const [selectedTitleTypes, setSelectedTitleTypes] = useState<Set<TitleType>>(new Set());
+    const [chartConfig, setChartConfig] = useState<ChartConfig>({ dimension: 'year', metric: 'count', mode: 'bar' });
+    const [storedDatasets, setStoredDatasets] = useState<StoredDatasetInfo[]>([]);
+    const [activeDatasetId, setActiveDatasetId] = useState<number | null>(null);
+    const [filters, setFilters] = useState<TitleFilters>(initialView.filters);
+    const [sortBy, setSortBy] = useState<SortOption | null>(initialView.sortBy);
+    const [detailTitle, setDetailTitle] = useState<Title | null>(null);
+    const [annotations, setAnnotations] = useState<Annotations>({});
+    const lastViewState = useRef<ViewState | null>(null);
+
+    const titleTypeCounts = useMemo(() => {
+        const counts: { [type in TitleType]?: number } = {};
+        allMovies.forEach(movie => {
+            counts[movie.titleType] = (counts[movie.titleType] || 0) + 1;
+        });
+        return counts;
+    }, [allMovies]);
 
-    const lines = content.split(/\r?\n/).filter(line => line.trim() !== '');
-    if (lines.length < 2) return [];
+    const visibleMovies = useMemo(
+        () => allMovies.filter(movie => selectedTitleTypes.has(movie.titleType)),
+        [allMovies, selectedTitleTypes]
+    );
 
-    const headerLine = lines[0];
-    
-    // Auto-detect delimiter (comma or semicolon)
-    const delimiter = headerLine.split(',').length >= headerLine.split(';').length ? ',' : ';';
-    const regex = new RegExp(`${delimiter}(?=(?:(?:[^"]*"){2})*[^"]*$)`);
 
-    const header = headerLine.split(regex).map(h => h.trim().replace(/^"|"$/g, ''));
-    const result: IMDbEntry[] = [];
+    // Watchlist mode is used when every loaded file is a watchlist or custom-list export.
+    const viewMode: ExportKind = importReports.length > 0 && importReports.every(report => report.exportKind === 'list') ? 'list' : 'ratings';
 
-    for (let i = 1; i < lines.length; i++) {
-        const line = lines[i];
-        if (!line.trim()) continue;
+    const listSort = sortBy ?? defaultSortFor(viewMode, availableColumns.includes('IMDb Rating'));
 
-        const currentline = line.split(regex);
+    // Mirror the view in the URL so it can be bookmarked and stepped through with back/forward.
+    useEffect(() => {
+        const state: ViewState = { filters, sortBy, searchTerm, selectedGroup };
+        const previous = lastViewState.current;
+        lastViewState.current = state;
+        const url = viewStateToUrl(state);
+        if (url === window.location.search + window.location.hash) return;
+        const target = url || window.location.pathname;
+        if (previous === null || isTypedChange(previous, state)) {
+            window.history.replaceState(null, '', target);
+        } else {
+            window.history.pushState(null, '', target);
+        }
+    }, [filters, sortBy, searchTerm, selectedGroup]);
+
+    useEffect(() => {
+        const handlePopState = () => {
+            const state = readViewState(window.location.search, window.location.hash);
+            setFilters(state.filters);
+            setSortBy(state.sortBy);
+            setSearchTerm(state.searchTerm);
+            setSelectedGroup(state.selectedGroup);
+        };
+        window.addEventListener('popstate', handlePopState);
+        return () => window.removeEventListener('popstate', handlePopState);
+    }, []);
 
-        if (header.length !== currentline.length) {
-            console.warn(`Skipping malformed CSV line (column count mismatch on line ${i + 1}): got ${currentline.length} columns, expected ${header.length}. Line: "${line}"`);
-            continue;
+    const sources = useMemo(
+        () => Array.from(new Set(allMovies.flatMap(movie => movie.sources))).sort(),
+        [allMovies]
+    );
+
+    const availableDimensions = useMemo(() => {
+        const dimensions: ChartDimension[] = ['year', 'decade'];
+        if (availableColumns.includes('Genres')) dimensions.push('genre');
+        if (availableColumns.includes('Directors')) dimensions.push('director');
+        if (viewMode === 'ratings') dimensions.push('rating');
+        if (availableColumns.includes('Runtime (mins)')) dimensions.push('runtime');
+        dimensions.push('titleType');
+        if (availableColumns.includes('Date Rated')) dimensions.push('monthRated');
+        return dimensions;
+    }, [availableColumns, viewMode]);
+
+    const availableMetrics = useMemo(() => {
+        const metrics: ChartMetric[] = ['count'];
+        if (viewMode === 'ratings') metrics.push('averageRating');
+        if (availableColumns.includes('IMDb Rating')) metrics.push('averageImdbRating');
+        if (availableColumns.includes('Runtime (mins)')) metrics.push('totalRuntime');
+        return metrics;
+    }, [availableColumns, viewMode]);
+
+    // Fall back to the defaults when a new file lacks the column the current chart is built on.
+    useEffect(() => {
+        setChartConfig(prev => ({
+            ...prev,
+            dimension: availableDimensions.includes(prev.dimension) ? prev.dimension : 'year',
+            metric: availableMetrics.includes(prev.metric) ? prev.metric : 'count',
+        }));
+    }, [availableDimensions, availableMetrics]);
+
+    // Big exports are filtered and sorted in a worker; small ones synchronously.
+    const useQueryWorker = visibleMovies.length >= WORKER_THRESHOLD && typeof Worker !== 'undefined';
+    const [queryRunner, setQueryRunner] = useState<{ titles: Title[]; runner: TitleQueryRunner } | null>(null);
+    const [workerQueryResult, setWorkerQueryResult] = useState<{ titles: Title[]; result: TitleQueryResult } | null>(null);
+
+    useEffect(() => {
+        if (!useQueryWorker) {
+            setQueryRunner(null);
+            return;
         }
+        const runner = createTitleQueryRunner(visibleMovies);
+        setQueryRunner({ titles: visibleMovies, runner });
+        return () => runner.dispose();
+    }, [useQueryWorker, visibleMovies]);
+
+    useEffect(() => {
+        if (!queryRunner) return;
+        const { titles, runner } = queryRunner;
+        let cancelled = false;
+        runner.query(filters, listSort, t.languageTag, annotations)
+            .then(result => {
+                if (!cancelled) setWorkerQueryResult({ titles, result });
+            })
+            .catch(err => {
+                console.warn('Filtering in a worker failed, falling back to the main thread:', err);
+                if (!cancelled) setWorkerQueryResult({ titles, result: runTitleQuery(titles, filters, listSort, t.languageTag, annotations) });
+            });
+        return () => {
+            cancelled = true;
+        };
+    }, [queryRunner, filters, listSort, t.languageTag, annotations]);
+
+    const syncQueryResult = useMemo(
+        () => (useQueryWorker ? null : runTitleQuery(visibleMovies, filters, listSort, t.languageTag, annotations)),
+        [useQueryWorker, visibleMovies, filters, listSort, t.languageTag, annotations]
+    );
+
+    // Until the worker has answered for the current titles, show them unfiltered.
+    const queryResult = syncQueryResult
+        ?? (workerQueryResult && workerQueryResult.titles === visibleMovies ? workerQueryResult.result : { filtered: visibleMovies, withoutYear: visibleMovies });
+    const filteredMovies = queryResult.filtered;
+
+    // Year-based charts carry a brush for the year filter, so they are built without it.
+    const isYearChart = chartConfig.dimension === 'year' || chartConfig.dimension === 'decade';
+    const chartMovies = isYearChart ? queryResult.withoutYear : filteredMovies;
+
+    const chartData = useMemo(
+        () => createChartData(chartMovies, chartConfig.dimension, chartConfig.metric, t),
+        [chartMovies, chartConfig.dimension, chartConfig.metric, t]
+    );
+
+    // Kept stable between renders, as the modal rebuilds its search index whenever the titles change.
+    const selectedGroupMovies = useMemo(
+        () => (selectedGroup ? titlesInGroup(chartMovies, selectedGroup.dimension, selectedGroup.key) : []),
+        [chartMovies, selectedGroup]
+    );
+
+    const yearSpan = useCallback(
+        (point: ChartDataPoint) => {
+            const start = Number(point.key);
+            return { start, end: chartConfig.dimension === 'decade' ? start + 9 : start };
+        },
+        [chartConfig.dimension]
+    );
 
-        const obj: IMDbEntry = {};
-        for (let j = 0; j < header.length; j++) {
-            const key = header[j];
-            // Trim and remove surrounding quotes from the value
-            const value = currentline[j] ? currentline[j].trim().replace(/^"|"$/g, '') : '';
-            obj[key] = value;
+    const brushRange = useMemo(() => {
+        if (!isYearChart || chartData.length === 0) return undefined;
+        const min = parseInt(filters.yearRange.min, 10);
+        const max = parseInt(filters.yearRange.max, 10);
+        let startIndex = isNaN(min) ? 0 : chartData.findIndex(point => yearSpan(point).end >= min);
+        let endIndex = chartData.length - 1;
+        if (!isNaN(max)) {
+            while (endIndex > 0 && yearSpan(chartData[endIndex]).start > max) endIndex--;
         }
-        result.push(obj);
-    }
-    return result;
-}
+        if (startIndex < 0) startIndex = chartData.length - 1;
+        return { startIndex: Math.min(startIndex, endIndex), endIndex };
+    }, [isYearChart, chartData, filters.yearRange, yearSpan]);
+
+    const handleBrushChange = useCallback((startIndex: number, endIndex: number) => {
+        const first = chartData[startIndex];
+        const last = chartData[endIndex];
+        if (!first || !last) return;
+        const coversAll = startIndex === 0 && endIndex === chartData.length - 1;
+        setFilters(prev => ({
+            ...prev,
+            yearRange: coversAll ? { min: '', max: '' } : { min: String(yearSpan(first).start), max: String(yearSpan(last).end) },
+        }));
+    }, [chartData, yearSpan]);
+
+    const stackedTitleTypes = useMemo(
+        () => (Object.keys(titleTypeCounts) as TitleType[]).filter(type => selectedTitleTypes.has(type)),
+        [titleTypeCounts, selectedTitleTypes]
+    );
 
+    // The leaderboard ignores the person filters so picking someone doesn't hide everyone else.
+    const peopleMovies = useMemo(
+        () => (filters.director || filters.cast || filters.person
+            ? applyFilters(visibleMovies, { ...filters, director: '', cast: '', person: null }, annotations)
+            : filteredMovies),
+        [visibleMovies, filters, filteredMovies, annotations]
+    );
 
-const App: React.FC = () => {
-    const [allMovies, setAllMovies] = useState<IMDbEntry[]>([]);
-    const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
-    const [fileName, setFileName] = useState<string | null>(null);
-    const [error, setError] = useState<string | null>(null);
-    const [isLoading, setIsLoading] = useState<boolean>(false);
-    const [selectedYear, setSelectedYear] = useState<string | null>(null);
-    const [isModalOpen, setIsModalOpen] = useState<boolean>(false);
-    const [searchTerm, setSearchTerm] = useState<string>('');
-    const [searchResults, setSearchResults] = useState<IMDbEntry[]>([]);
-    const [availableColumns, setAvailableColumns] = useState<string[]>([]);
+    const peopleRoles = useMemo(() => {
+        const roles: PersonRole[] = [];
+        if (availableColumns.includes('Directors')) roles.push('director');
+        if (availableColumns.includes('Cast')) roles.push('cast');
+        return roles;
+    }, [availableColumns]);
 
-    const filterAndProcessMovies = (data: IMDbEntry[]): IMDbEntry[] => {
-        return data.filter(entry => {
-            const titleType = entry['Title Type'] || entry['TitleType'];
-            const yearStr = entry.Year;
-            return titleType?.toLowerCase() === 'movie' && yearStr;
-        });
-    };
-
-    const createChartData = (movies: IMDbEntry[]): ChartDataPoint[] => {
-        const yearCounts: { [year: string]: number } = {};
-        movies.forEach(movie => {
-            const year = parseInt(movie.Year, 10);
-            if (!isNaN(year) && year > 1800 && year < 2100) { // Basic validation
-              yearCounts[year] = (yearCounts[year] || 0) + 1;
+    const handlePersonSelect = useCallback((role: PersonRole, name: string) => {
+        setFilters(prev => ({ ...prev, director: '', cast: '', person: { role, name } }));
+        requestAnimationFrame(() => document.getElementById('movie-list')?.scrollIntoView({ behavior: 'smooth' }));
+    }, []);
+
+    const parsedQuery = useMemo(() => parseSearchQuery(searchTerm, t), [searchTerm, t]);
+
+    // Building the index takes a moment on big exports, so it waits for the first search.
+    const getSearchIndex = useMemo(() => {
+        let index: TitleSearchIndex | null = null;
+        return () => (index ??= createSearchIndex(allMovies));
+    }, [allMovies]);
+
+    // Terms with errors are left out, so the rest of the query still narrows the results.
+    const searchResults = useMemo(() => {
+        if (searchTerm.trim() === '') return { titles: [], matchedTokens: new Set<string>() };
+        return searchTitles(filteredMovies, parsedQuery, getSearchIndex());
+    }, [filteredMovies, searchTerm, parsedQuery, getSearchIndex]);
+
+    const queryVocabulary = useMemo(() => buildQueryVocabulary(visibleMovies, t), [visibleMovies, t]);
+
+    const getSearchSuggestions = useCallback(
+        (value: string, caret: number) => suggestCompletions(value, caret, queryVocabulary, t),
+        [queryVocabulary, t]
+    );
+
+    // keepView leaves the filters and sort alone, e.g. when a shared link is opened on reload.
+    const showDataset = useCallback((titles: Title[], columns: string[], keepView = false) => {
+        setAllMovies(titles);
+        setAvailableColumns(columns);
+        setSelectedTitleTypes(new Set(titles.map(movie => movie.titleType)));
+        setDetailTitle(null);
+        if (!keepView) {
+            setFilters(createEmptyFilters());
+            setSortBy(null);
+            setSelectedGroup(null);
+        }
+    }, []);
+
+    const refreshStoredDatasets = useCallback(async () => {
+        try {
+            const datasets = await listDatasets();
+            setStoredDatasets(datasets);
+            return datasets;
+        } catch (err) {
+            console.warn('Could not read stored datasets:', err);
+            return [];
+        }
+    }, []);
+
+    const handleRestoreDataset = useCallback(async (id: number, keepView = false) => {
+        setIsLoading(true);
+        setError(null);
+        if (!keepView) setSearchTerm('');
+        try {
+            const dataset = await loadDataset(id);
+            if (!dataset) {
+                setError(t.errors.datasetNotFound);
+                return;
             }
-        });
+            setFileName(dataset.fileName);
+            setImportReports(dataset.reports);
+            setMergeSummary(null);
+            showDataset(dataset.titles, dataset.availableColumns, keepView);
+            setActiveDatasetId(dataset.id);
+        } catch (err) {
+            console.warn('Could not read stored dataset:', err);
+            setError(t.errors.datasetReadFailed);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [showDataset, t]);
 
-        return Object.entries(yearCounts)
-          .map(([year, count]) => ({ year, count }))
-          .sort((a, b) => parseInt(a.year, 10) - parseInt(b.year, 10));
-    };
+    const handleDeleteDataset = useCallback(async (id: number) => {
+        try {
+            await deleteDataset(id);
+        } catch (err) {
+            console.warn('Could not delete stored dataset:', err);
+        }
+        if (id === activeDatasetId) setActiveDatasetId(null);
+        await refreshStoredDatasets();
+    }, [activeDatasetId, refreshStoredDatasets]);
+
+    // Restore the most recent import so a reload doesn't force a new upload. Only once, as the
+    // restore callback changes with the language.
+    const restoredOnLoad = useRef(false);
+    useEffect(() => {
+        if (restoredOnLoad.current) return;
+        restoredOnLoad.current = true;
+        refreshStoredDatasets().then(datasets => {
+            if (datasets.length > 0) handleRestoreDataset(datasets[0].id, true);
+        });
+    }, [refreshStoredDatasets, handleRestoreDataset]);
 
-    const handleFileSelect = useCallback((file: File) => {
-        if (!file) return;
+    const handleFileSelect = useCallback(async (files: File[]) => {
+        if (files.length === 0) return;
 
-        if (file.type !== 'text/csv' && !file.name.endsWith('.csv')) {
-            setError('Felaktig filtyp. Vänligen ladda upp en CSV-fil.');
+        if (files.some(file => !isImportableFile(file))) {
+            setError(t.errors.wrongFileType);
             return;
         }
 
+        const sourceNames = uniqueSourceNames(files.map(file => file.name));
+        const combinedName = sourceNames.join(', ');
+
         setIsLoading(true);
+        setLoadProgress(0);
         setError(null);
-        setChartData([]);
         setAllMovies([]);
-        setFileName(file.name);
+        setFileName(combinedName);
         setSearchTerm(''); // Clear search on new file upload
-        setSearchResults([]);
         setAvailableColumns([]);
-
-        const reader = new FileReader();
-
-        reader.onload = (e) => {
-            try {
-                const text = e.target?.result as string;
-                const parsedData = parseCSV(text);
-
-                if (parsedData.length === 0) {
-                  throw new Error("CSV-filen är tom eller har ett ogiltigt format.");
+        setImportReports([]);
+        setMergeSummary(null);
+        setActiveDatasetId(null);
+
+        try {
+            const reports: ImportReport[] = [];
+            const titleSets: Title[][] = [];
+            const columns = new Set<string>();
+
+            for (let i = 0; i < files.length; i++) {
+                const sourceName = sourceNames[i];
+                // Prefix errors with the file name when several files were dropped at once.
+                const fileError = (message: string) => new Error(files.length > 1 ? `${sourceName}: ${message}` : message);
+
+                const { format, parsed } = await readImportFile(files[i], t, { onProgress: fraction => setLoadProgress((i + fraction) / files.length) });
+                const { titles, report } = importTitles(sourceName, parsed, format);
+                reports.push(report);
+                setImportReports([...reports]);
+
+                if (parsed.rows.length === 0) {
+                  throw fileError(t.errors.emptyFile);
                 }
 
-                const firstRow = parsedData[0];
-                const header = Object.keys(firstRow);
-                setAvailableColumns(header);
-
                 // New, less strict validation for core functionality
-                const REQUIRED_COLUMNS = ['Const', 'Title', 'Year', 'Your Rating', 'URL'];
-                const missingColumns = REQUIRED_COLUMNS.filter(col => !(col in firstRow));
-                const hasTitleType = 'Title Type' in firstRow || 'TitleType' in firstRow;
-
-                if (missingColumns.length > 0 || !hasTitleType) {
-                    const allMissing = [...missingColumns];
-                    if (!hasTitleType) allMissing.push('Title Type');
-                    throw new Error(`CSV-filen saknar nödvändiga kolumner för grundfunktionalitet: ${allMissing.join(', ')}. Se till att dessa är med i din IMDb-export.`);
+                if (report.missingRequiredColumns.length > 0) {
+                    throw fileError(t.errors.missingColumns(report.missingRequiredColumns.join(', ')));
                 }
-                
-                const movies = filterAndProcessMovies(parsedData);
-                
-                if (movies.length === 0) {
-                    throw new Error("Kunde inte hitta några filmer i den angivna filen. Kontrollera att kolumnen 'Title Type' innehåller värdet 'movie'.");
-                }
-                
-                setAllMovies(movies);
-                const processedChartData = createChartData(movies);
-                setChartData(processedChartData);
-
-            } catch (err: any) {
-                setError(err.message || 'Ett fel uppstod vid bearbetning av filen.');
-            } finally {
-                setIsLoading(false);
+
+                titleSets.push(titles);
+                parsed.header.forEach(column => columns.add(column));
             }
-        };
 
-        reader.onerror = () => {
-            setError('Det gick inte att läsa filen.');
-            setIsLoading(false);
-        };
+            const { titles: movies, conflicts } = mergeTitleSets(titleSets, conflictRule);
+            
+            if (movies.length === 0) {
+                throw new Error(t.errors.noValidTitles);
+            }
+            
+            const availableColumnList = Array.from(columns);
+            showDataset(movies, availableColumnList);
+            setMergeSummary({ conflicts, rule: conflictRule });
 
-        reader.readAsText(file);
-    }, []);
+            try {
+                const stored = await saveDataset(combinedName, movies, availableColumnList, reports);
+                setActiveDatasetId(stored.id);
+                await refreshStoredDatasets();
+            } catch (storageErr) {
+                console.warn('Could not store dataset locally:', storageErr);
+            }
+
+        } catch (err: any) {
+            setError(err.message || t.errors.processingFailed);
+        } finally {
+            setIsLoading(false);
+        }
+    }, [showDataset, refreshStoredDatasets, conflictRule, t]);
 
     const handleBarClick = useCallback((data: ChartDataPoint) => {
-        if (data && data.year) {
-            setSelectedYear(data.year);
-            setIsModalOpen(true);
+        if (data && data.key) {
+            setSelectedGroup({ dimension: chartConfig.dimension, key: data.key });
         }
-    }, []);
+    }, [chartConfig.dimension]);
 
     const handleCloseModal = useCallback(() => {
-        setIsModalOpen(false);
-        setSelectedYear(null);
+        setSelectedGroup(null);
+    }, []);
+
+    const handleCloseDrawer = useCallback(() => {
+        setDetailTitle(null);
+    }, []);
+
+    // Annotations are kept apart from the imports, so they are loaded once and outlive any file.
+    useEffect(() => {
+        loadAnnotations()
+            .then(setAnnotations)
+            .catch(err => console.warn('Could not read annotations:', err));
+    }, []);
+
+    const handleAnnotationChange = useCallback((id: string, annotation: TitleAnnotation) => {
+        setAnnotations(prev => withAnnotation(prev, id, annotation));
+        saveAnnotation(id, isEmptyAnnotation(annotation) ? null : annotation)
+            .catch(err => console.warn('Could not save annotation:', err));
     }, []);
 
     const handleSearchChange = useCallback((value: string) => {
         setSearchTerm(value);
-        if (value.trim() === '') {
-            setSearchResults([]);
-        } else {
-            const filteredMovies = allMovies
-                .filter(movie => movie.Title.toLowerCase().includes(value.toLowerCase()))
-                .sort((a, b) => { // Sort by rating descending
-                    const ratingA = parseInt(a['Your Rating'], 10);
-                    const ratingB = parseInt(b['Your Rating'], 10);
-                    return ratingB - ratingA;
-                });
-            setSearchResults(filteredMovies);
-        }
-    }, [allMovies]);
+    }, []);
 
     return (
         <div className="min-h-screen bg-slate-900 text-slate-200 flex flex-col items-center p-4 sm:p-6 md:p-8">
             <div className="w-full max-w-5xl">
                 <header className="text-center mb-8">
-                    <h1 className="text-4xl sm:text-5xl font-bold text-sky-400">IMDb Filmstatistik</h1>
-                    <p className="text-slate-400 mt-2 text-lg">Ladda upp din IMDb-betygsfil (CSV) för att se en visualisering av filmer per år.</p>
+                    <LanguageSwitcher />
+                    <h1 className="text-4xl sm:text-5xl font-bold text-sky-400">{t.app.heading}</h1>
+                    <p className="text-slate-400 mt-2 text-lg">{t.app.intro}</p>
                 </header>
                 
                 <main>
                     <SearchBar 
                         value={searchTerm}
                         onChange={handleSearchChange}
-                        placeholder="Sök bland alla filmer..."
+                        placeholder={t.app.searchPlaceholder}
                         disabled={allMovies.length === 0 || isLoading}
+                        errors={parsedQuery.errors}
+                        getSuggestions={getSearchSuggestions}
                     />
 
                     {searchTerm.trim() === '' ? (
                         <>
-                            <FileUpload onFileSelect={handleFileSelect} fileName={fileName} disabled={isLoading} />
+                            <FileUpload onFileSelect={handleFileSelect} fileName={fileName} disabled={isLoading} multiple />
+                            <div className="w-full max-w-2xl mx-auto mt-2 flex items-center justify-end gap-2 text-sm">
+                                <label htmlFor="conflict-rule" className="text-slate-400">{t.app.conflictRule}</label>
+                                <select
+                                    id="conflict-rule"
+                                    value={conflictRule}
+                                    onChange={(e) => setConflictRule(e.target.value as ConflictRule)}
+                                    disabled={isLoading}
+                                    className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
+                                >
+                                    {CONFLICT_RULES.map(rule => (
+                                        <option key={rule} value={rule}>{t.conflictRules[rule]}</option>
+                                    ))}
+                                </select>
+                            </div>
+                            <RecentImports
+                                datasets={storedDatasets}
+                                activeId={activeDatasetId}
+                                onRestore={handleRestoreDataset}
+                                onDelete={handleDeleteDataset}
+                                disabled={isLoading}
+                            />
 
                             <div className="mt-8 text-center">
                                 {isLoading && (
                                     <div className="flex items-center justify-center space-x-2">
                                        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-sky-400"></div>
-                                       <span className="text-lg">Bearbetar fil...</span>
+                                       <span className="text-lg">{t.app.processing(Math.round(loadProgress * 100))}</span>
                                     </div>
                                 )}
 
                                 {error && (
                                     <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg relative max-w-2xl mx-auto" role="alert">
-                                        <strong className="font-bold">Fel: </strong>
+                                        <strong className="font-bold">{t.app.errorPrefix}</strong>
                                         <span className="block sm:inline">{error}</span>
                                     </div>
                                 )}
 
-                                {!isLoading && !error && chartData.length > 0 && (
+                                {!isLoading && importReports.map(report => <ImportReportPanel key={report.fileName} report={report} />)}
+
+                                {!isLoading && mergeSummary && mergeSummary.conflicts > 0 && (
+                                    <p className="text-sm text-slate-400 mt-4">
+                                        {t.app.mergeConflicts(mergeSummary.conflicts, t.conflictRules[mergeSummary.rule])}
+                                    </p>
+                                )}
+
+                                {!isLoading && !error && allMovies.length > 0 && (
                                     <>
-                                        <MovieChart data={chartData} onBarClick={handleBarClick} />
-                                        <MovieList movies={allMovies} availableColumns={availableColumns} />
+                                        <TitleTypeSelector
+                                            counts={titleTypeCounts}
+                                            selectedTypes={selectedTitleTypes}
+                                            onChange={setSelectedTitleTypes}
+                                        />
+                                        <ChartControls
+                                            config={chartConfig}
+                                            onChange={setChartConfig}
+                                            availableDimensions={availableDimensions}
+                                            availableMetrics={availableMetrics}
+                                        />
+                                        <MovieChart
+                                            data={chartData}
+                                            config={chartConfig}
+                                            onBarClick={handleBarClick}
+                                            titleTypes={stackedTitleTypes}
+                                            brushRange={brushRange}
+                                            onBrushChange={isYearChart ? handleBrushChange : undefined}
+                                        />
+                                        {viewMode === 'ratings' && availableColumns.includes('Date Rated') && <RatingTimeline movies={filteredMovies} onTitleSelect={setDetailTitle} />}
+                                        {viewMode === 'ratings' && availableColumns.includes('Date Rated') && <YearInReview movies={filteredMovies} onTitleSelect={setDetailTitle} />}
+                                        {viewMode === 'ratings' && availableColumns.includes('IMDb Rating') && <RatingComparison movies={filteredMovies} />}
+                                        {availableColumns.includes('Genres') && (
+                                            <GenreDashboard
+                                                movies={filteredMovies}
+                                                showRatings={viewMode === 'ratings'}
+                                                showTrend={viewMode === 'ratings' && availableColumns.includes('Date Rated')}
+                                            />
+                                        )}
+                                        {peopleRoles.length > 0 && (
+                                            <PeopleLeaderboard
+                                                movies={peopleMovies}
+                                                roles={peopleRoles}
+                                                showRatings={viewMode === 'ratings'}
+                                                onPersonSelect={handlePersonSelect}
+                                            />
+                                        )}
+                                        <StatsPanel
+                                            movies={filteredMovies}
+                                            showRatings={viewMode === 'ratings'}
+                                            showTrend={viewMode === 'ratings' && availableColumns.includes('Date Rated')}
+                                        />
+                                        <MovieList
+                                            movies={filteredMovies}
+                                            allMovies={visibleMovies}
+                                            filters={filters}
+                                            onFiltersChange={setFilters}
+                                            sortBy={listSort}
+                                            onSortChange={setSortBy}
+                                            availableColumns={availableColumns}
+                                            sources={sources}
+                                            mode={viewMode}
+                                            annotations={annotations}
+                                            onTitleSelect={setDetailTitle}
+                                        />
+                                        <ExportDiffPanel currentTitles={allMovies} currentFileName={fileName} />
                                     </>
                                 )}
 
-                                {!isLoading && !error && chartData.length === 0 && (
+                                {!isLoading && !error && allMovies.length === 0 && (
                                     <div className="text-center text-slate-500 mt-8 max-w-2xl mx-auto">
-                                        <p>Diagrammet kommer att visas här när en giltig CSV-fil har laddats upp och bearbetats.</p>
-                                        <p className="mt-2 text-sm">Förväntat format är en CSV-fil exporterad från IMDb med kolumnerna "Year" och "Title Type". Klicka på en stapel för att see filmer från det året.</p>
+                                        <p>{t.app.emptyState}</p>
+                                        <p className="mt-2 text-sm">{t.app.emptyStateHint}</p>
                                     </div>
                                 )}
                             </div>
                         </>
                     ) : (
-                       <SearchResults results={searchResults} />
+                       <SearchResults results={searchResults.titles} matchedTokens={searchResults.matchedTokens} onTitleSelect={setDetailTitle} />
                     )}
                 </main>
             </div>
-            {isModalOpen && selectedYear && (
+            {selectedGroup && allMovies.length > 0 && (
                 <MovieDetailsModal 
-                    isOpen={isModalOpen}
+                    isOpen={true}
                     onClose={handleCloseModal}
-                    year={selectedYear}
-                    movies={allMovies}
+                    title={`${t.chart.dimensions[selectedGroup.dimension]}: ${groupLabel(selectedGroup.key, selectedGroup.dimension, t)}`}
+                    movies={selectedGroupMovies}
+                    onTitleSelect={setDetailTitle}
                 />
             )}
+            <TitleDrawer
+                movie={detailTitle}
+                allMovies={allMovies}
+                annotations={annotations}
+                onAnnotationChange={handleAnnotationChange}
+                onSelect={setDetailTitle}
+                onClose={handleCloseDrawer}
+            />
         </div>
     );
 };
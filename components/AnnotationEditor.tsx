@@ -0,0 +1,105 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { TitleAnnotation } from '../types';
+import { ANNOTATION_FLAGS, parseTags } from '../utils/annotations';
+import { useI18n } from './I18nProvider';
+
+interface AnnotationEditorProps {
+  annotation: TitleAnnotation;
+  onChange: (annotation: TitleAnnotation) => void;
+  // Tags used on other titles, offered as suggestions.
+  knownTags: string[];
+}
+
+// Keyed by title where it is used, so the note and tag drafts start over for each title.
+const AnnotationEditor: React.FC<AnnotationEditorProps> = ({ annotation, onChange, knownTags }) => {
+  const { t } = useI18n();
+  const [tagDraft, setTagDraft] = useState('');
+  // The note is saved when the field loses focus rather than on every keystroke.
+  const [noteDraft, setNoteDraft] = useState(annotation.note);
+
+  const saveNote = () => {
+    if (noteDraft !== annotation.note) onChange({ ...annotation, note: noteDraft });
+  };
+
+  // Closing with Escape unmounts the editor without a blur, so an unsaved note is saved here.
+  const saveNoteRef = useRef(saveNote);
+  saveNoteRef.current = saveNote;
+  useEffect(() => () => saveNoteRef.current(), []);
+
+  const addTags = () => {
+    const tags = parseTags([...annotation.tags, tagDraft].join(','));
+    setTagDraft('');
+    if (tags.length !== annotation.tags.length) onChange({ ...annotation, tags });
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTags();
+    }
+  };
+
+  return (
+    <section className="mt-6">
+      <h3 className="font-semibold text-slate-300 mb-1">{t.annotations.heading}</h3>
+      <p className="text-xs text-slate-500 mb-3">{t.annotations.storedLocally}</p>
+
+      <div className="flex flex-wrap gap-2 mb-3">
+        {ANNOTATION_FLAGS.map(flag => (
+          <button
+            key={flag}
+            onClick={() => onChange({ ...annotation, [flag]: !annotation[flag] })}
+            className={`px-3 py-1 rounded-full text-sm transition-colors ${annotation[flag] ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            aria-pressed={annotation[flag]}
+          >
+            {t.annotations.flags[flag]}
+          </button>
+        ))}
+      </div>
+
+      <label className="block text-sm text-slate-400 mb-1" htmlFor="annotation-tags">{t.annotations.tags}</label>
+      {annotation.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mb-2">
+          {annotation.tags.map(tag => (
+            <span key={tag} className="flex items-center gap-1 bg-slate-700 text-slate-200 pl-2 pr-1 rounded-full text-xs">
+              {tag}
+              <button
+                onClick={() => onChange({ ...annotation, tags: annotation.tags.filter(other => other !== tag) })}
+                className="text-slate-400 hover:text-white px-1"
+                aria-label={t.annotations.removeTag(tag)}
+              >
+                ×
+              </button>
+            </span>
+          ))}
+        </div>
+      )}
+      <input
+        id="annotation-tags"
+        type="text"
+        list="annotation-tag-suggestions"
+        value={tagDraft}
+        onChange={(e) => setTagDraft(e.target.value)}
+        onKeyDown={handleTagKeyDown}
+        onBlur={addTags}
+        placeholder={t.annotations.addTag}
+        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200 text-sm"
+      />
+      <datalist id="annotation-tag-suggestions">
+        {knownTags.filter(tag => !annotation.tags.includes(tag)).map(tag => <option key={tag} value={tag} />)}
+      </datalist>
+
+      <label className="block text-sm text-slate-400 mt-3 mb-1" htmlFor="annotation-note">{t.annotations.note}</label>
+      <textarea
+        id="annotation-note"
+        value={noteDraft}
+        onChange={(e) => setNoteDraft(e.target.value)}
+        onBlur={saveNote}
+        rows={4}
+        className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200 text-sm"
+      />
+    </section>
+  );
+};
+
+export default AnnotationEditor;
@@ -0,0 +1,67 @@
+import React, { useMemo } from 'react';
+import { dayKey } from '../utils/timeline';
+import { useI18n } from './I18nProvider';
+
+interface CalendarHeatmapProps {
+  year: number;
+  counts: Map<string, number>;
+  onDayClick: (day: string) => void;
+}
+
+const cellColor = (count: number) => {
+  if (count === 0) return 'bg-slate-700/60';
+  if (count === 1) return 'bg-sky-900';
+  if (count <= 3) return 'bg-sky-700';
+  if (count <= 6) return 'bg-sky-500';
+  return 'bg-sky-300';
+};
+
+const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({ year, counts, onDayClick }) => {
+  const { t, format } = useI18n();
+
+  // One column per week, Monday first, padded so Jan 1 lands on its weekday.
+  const weeks = useMemo(() => {
+    const result: (Date | null)[][] = [];
+    const first = new Date(year, 0, 1);
+    let week: (Date | null)[] = Array((first.getDay() + 6) % 7).fill(null);
+    for (let date = first; date.getFullYear() === year; date = new Date(year, date.getMonth(), date.getDate() + 1)) {
+      week.push(date);
+      if (week.length === 7) {
+        result.push(week);
+        week = [];
+      }
+    }
+    if (week.length > 0) result.push([...week, ...Array(7 - week.length).fill(null)]);
+    return result;
+  }, [year]);
+
+  return (
+    <div className="flex gap-1 overflow-x-auto pb-2">
+      <div className="flex flex-col gap-1 text-[10px] text-slate-500 pr-1">
+        {t.timeline.weekdays.map((label, index) => (
+          <div key={index} className="h-3 leading-3">{label}</div>
+        ))}
+      </div>
+      {weeks.map((week, weekIndex) => (
+        <div key={weekIndex} className="flex flex-col gap-1">
+          {week.map((date, dayIndex) => {
+            if (!date) return <div key={dayIndex} className="h-3 w-3" />;
+            const key = dayKey(date);
+            const count = counts.get(key) || 0;
+            return (
+              <button
+                key={dayIndex}
+                onClick={() => count > 0 && onDayClick(key)}
+                className={`h-3 w-3 rounded-sm ${cellColor(count)} ${count > 0 ? 'cursor-pointer hover:ring-1 hover:ring-slate-200' : 'cursor-default'}`}
+                title={t.timeline.ratingsOnDay(format.date(date), count)}
+                aria-label={t.timeline.ratingsOnDay(format.date(date), count)}
+              />
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default CalendarHeatmap;
@@ -0,0 +1,73 @@
+import React from 'react';
+import { ChartConfig, ChartDimension, ChartMetric, ChartMode } from '../types';
+import { isAdditiveMetric } from '../utils/chartData';
+import { useI18n } from './I18nProvider';
+
+interface ChartControlsProps {
+  config: ChartConfig;
+  onChange: (config: ChartConfig) => void;
+  availableDimensions: ChartDimension[];
+  availableMetrics: ChartMetric[];
+}
+
+const CHART_MODES: ChartMode[] = ['bar', 'line', 'stacked'];
+
+const selectClassName = 'w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200';
+
+const ChartControls: React.FC<ChartControlsProps> = ({ config, onChange, availableDimensions, availableMetrics }) => {
+  const { t } = useI18n();
+
+  const handleMetricChange = (metric: ChartMetric) => {
+    // Averages can't be stacked, so fall back to plain bars.
+    const mode = config.mode === 'stacked' && !isAdditiveMetric(metric) ? 'bar' : config.mode;
+    onChange({ ...config, metric, mode });
+  };
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 w-full max-w-5xl mx-auto mt-8 p-4 bg-slate-800 rounded-lg shadow-lg text-left">
+      <div>
+        <h3 className="font-semibold text-slate-300 mb-2">{t.chart.groupBy}</h3>
+        <select
+          value={config.dimension}
+          onChange={(e) => onChange({ ...config, dimension: e.target.value as ChartDimension })}
+          className={selectClassName}
+          aria-label={t.chart.groupBy}
+        >
+          {availableDimensions.map(dimension => (
+            <option key={dimension} value={dimension}>{t.chart.dimensions[dimension]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <h3 className="font-semibold text-slate-300 mb-2">{t.chart.metric}</h3>
+        <select
+          value={config.metric}
+          onChange={(e) => handleMetricChange(e.target.value as ChartMetric)}
+          className={selectClassName}
+          aria-label={t.chart.metric}
+        >
+          {availableMetrics.map(metric => (
+            <option key={metric} value={metric}>{t.chart.metrics[metric]}</option>
+          ))}
+        </select>
+      </div>
+      <div>
+        <h3 className="font-semibold text-slate-300 mb-2">{t.chart.display}</h3>
+        <select
+          value={config.mode}
+          onChange={(e) => onChange({ ...config, mode: e.target.value as ChartMode })}
+          className={selectClassName}
+          aria-label={t.chart.display}
+        >
+          {CHART_MODES.map(mode => (
+            <option key={mode} value={mode} disabled={mode === 'stacked' && !isAdditiveMetric(config.metric)}>
+              {t.chart.modes[mode]}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+};
+
+export default ChartControls;
@@ -0,0 +1,160 @@
+import React, { useState, useMemo, useCallback } from 'react';
+import FileUpload from './FileUpload';
+import { Title } from '../types';
+import { isImportableFile, readImportFile } from '../utils/importAdapters';
+import { importTitles } from '../utils/importReport';
+import { diffExports } from '../utils/diffExports';
+import { Formatters } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+interface ExportDiffPanelProps {
+  currentTitles: Title[];
+  currentFileName: string | null;
+}
+
+interface Snapshot {
+  fileName: string;
+  titles: Title[];
+}
+
+type DiffTab = 'added' | 'removed' | 'rerated';
+
+const formatAverage = (format: Formatters, value: number | null) => (value === null ? '–' : format.number(value, 2));
+
+const ExportDiffPanel: React.FC<ExportDiffPanelProps> = ({ currentTitles, currentFileName }) => {
+  const { t, format } = useI18n();
+  const [older, setOlder] = useState<Snapshot | null>(null);
+  const [uploadedNewer, setUploadedNewer] = useState<Snapshot | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [activeTab, setActiveTab] = useState<DiffTab>('added');
+
+  // The newer snapshot defaults to the dataset that is already loaded.
+  const newer = useMemo<Snapshot | null>(() => {
+    if (uploadedNewer) return uploadedNewer;
+    return currentTitles.length > 0 ? { fileName: currentFileName ?? '', titles: currentTitles } : null;
+  }, [uploadedNewer, currentTitles, currentFileName]);
+
+  const loadSnapshot = useCallback(async (file: File, onLoaded: (snapshot: Snapshot) => void) => {
+    if (!isImportableFile(file)) {
+      setError(t.errors.wrongFileType);
+      return;
+    }
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { format, parsed } = await readImportFile(file, t);
+      const { titles, report } = importTitles(file.name, parsed, format);
+      if (report.missingRequiredColumns.length > 0) {
+        throw new Error(t.errors.fileMissingColumns(file.name, report.missingRequiredColumns.join(', ')));
+      }
+      onLoaded({ fileName: file.name, titles });
+    } catch (err: any) {
+      setError(err.message || t.errors.processingFailed);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [t]);
+
+  const diff = useMemo(() => (older && newer ? diffExports(older.titles, newer.titles) : null), [older, newer]);
+
+  const averageChange = diff && diff.oldAverage !== null && diff.newAverage !== null ? diff.newAverage - diff.oldAverage : null;
+
+  const tabs: { key: DiffTab; label: string; count: number }[] = diff
+    ? [
+        { key: 'added', label: t.diff.added, count: diff.added.length },
+        { key: 'removed', label: t.diff.removed, count: diff.removed.length },
+        { key: 'rerated', label: t.diff.rerated, count: diff.rerated.length },
+      ]
+    : [];
+
+  const renderTitleLink = (movie: Title) => (
+    <a
+      href={movie.url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="font-semibold text-slate-100 hover:text-sky-400 transition-colors"
+    >
+      {movie.title}
+    </a>
+  );
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg text-left">
+      <h2 className="text-2xl font-bold text-sky-400 mb-2">{t.diff.heading}</h2>
+      <p className="text-slate-400 mb-4 text-sm">{t.diff.intro}</p>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+        <div>
+          <h3 className="font-semibold text-slate-300 mb-2">{t.diff.older}</h3>
+          <FileUpload onFileSelect={files => loadSnapshot(files[0], setOlder)} fileName={older?.fileName ?? null} disabled={isLoading} />
+        </div>
+        <div>
+          <h3 className="font-semibold text-slate-300 mb-2">{t.diff.newer}</h3>
+          <FileUpload onFileSelect={files => loadSnapshot(files[0], setUploadedNewer)} fileName={newer?.fileName ?? null} disabled={isLoading} />
+        </div>
+      </div>
+
+      {error && (
+        <div className="bg-red-900/50 border border-red-700 text-red-300 px-4 py-3 rounded-lg mb-4" role="alert">
+          <strong className="font-bold">{t.app.errorPrefix}</strong>
+          <span>{error}</span>
+        </div>
+      )}
+
+      {diff && (
+        <>
+          <p className="text-slate-300 mb-4">
+            {t.diff.averageRating} {formatAverage(format, diff.oldAverage)} → {formatAverage(format, diff.newAverage)}
+            {averageChange !== null && (
+              <span className={`ml-2 font-bold ${averageChange > 0 ? 'text-green-400' : averageChange < 0 ? 'text-red-400' : 'text-slate-400'}`}>
+                ({averageChange > 0 ? '+' : ''}{format.number(averageChange, 2)})
+              </span>
+            )}
+          </p>
+
+          <div className="flex flex-wrap gap-2 mb-4">
+            {tabs.map(tab => (
+              <button
+                key={tab.key}
+                onClick={() => setActiveTab(tab.key)}
+                className={`px-3 py-1 rounded-full text-sm transition-colors ${activeTab === tab.key ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+              >
+                {tab.label} ({format.number(tab.count)})
+              </button>
+            ))}
+          </div>
+
+          <ul className="space-y-2 max-h-[50vh] overflow-y-auto pr-2">
+            {activeTab === 'rerated'
+              ? diff.rerated.map(change => (
+                  <li key={change.title.id} className="p-3 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
+                    <div className="flex-grow">
+                      {renderTitleLink(change.title)}
+                      <p className="text-sm text-slate-400">{change.title.year}</p>
+                    </div>
+                    <span className="flex-shrink-0 text-lg font-bold text-sky-400">
+                      {change.oldRating ?? '–'} → {change.newRating ?? '–'}
+                    </span>
+                  </li>
+                ))
+              : diff[activeTab].map(movie => (
+                  <li key={movie.id} className="p-3 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
+                    <div className="flex-grow">
+                      {renderTitleLink(movie)}
+                      <p className="text-sm text-slate-400">{movie.year}</p>
+                    </div>
+                    <span className="flex-shrink-0 text-lg font-bold text-sky-400">{movie.yourRating ?? '–'}</span>
+                  </li>
+                ))}
+            {tabs.find(tab => tab.key === activeTab)?.count === 0 && (
+              <li className="text-center text-slate-400 py-4">{t.diff.noChanges}</li>
+            )}
+          </ul>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ExportDiffPanel;
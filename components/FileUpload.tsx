@@ -1,18 +1,21 @@
 
 import React, { useRef, useCallback } from 'react';
+import { useI18n } from './I18nProvider';
 
 interface FileUploadProps {
-  onFileSelect: (file: File) => void;
+  onFileSelect: (files: File[]) => void;
   fileName: string | null;
   disabled: boolean;
+  multiple?: boolean;
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, fileName, disabled }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, fileName, disabled, multiple = false }) => {
+  const { t } = useI18n();
   const inputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
     if (event.target.files && event.target.files.length > 0) {
-      onFileSelect(event.target.files[0]);
+      onFileSelect(multiple ? Array.from(event.target.files) : [event.target.files[0]]);
     }
   };
 
@@ -27,10 +30,10 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, fileName, disable
   const handleDrop = useCallback((event: React.DragEvent<HTMLLabelElement>) => {
     event.preventDefault();
     if (event.dataTransfer.files && event.dataTransfer.files.length > 0) {
-      onFileSelect(event.dataTransfer.files[0]);
+      onFileSelect(multiple ? Array.from(event.dataTransfer.files) : [event.dataTransfer.files[0]]);
       event.dataTransfer.clearData();
     }
-  }, [onFileSelect]);
+  }, [onFileSelect, multiple]);
 
   return (
     <div className="w-full max-w-2xl mx-auto">
@@ -45,8 +48,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, fileName, disable
             <path strokeLinecap="round" strokeLinejoin="round" d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" />
           </svg>
           <span className="font-medium text-slate-400">
-            {fileName ? fileName : 'Dra och släpp en fil hit, eller klicka för att välja'}
-            <span className="text-sky-500 underline ml-1">bläddra</span>
+            {fileName ? fileName : multiple ? t.fileUpload.dropMany : t.fileUpload.dropOne}
+            <span className="text-sky-500 underline ml-1">{t.fileUpload.browse}</span>
           </span>
         </span>
         <input
@@ -54,7 +57,8 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, fileName, disable
           type="file"
           name="file_upload"
           className="hidden"
-          accept=".csv"
+          accept=".csv,.json,.xml"
+          multiple={multiple}
           onChange={handleFileChange}
           disabled={disabled}
         />
@@ -0,0 +1,179 @@
+import React, { useState, useMemo } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import { GenreSharePoint, Title } from '../types';
+import { genreLabel } from '../utils/i18n';
+import { averageRatingByGenre, genreCooccurrence, genreShareByDecade, genresByFrequency, genreTrendByYearRated } from '../utils/genreStats';
+import { useI18n } from './I18nProvider';
+
+interface GenreDashboardProps {
+  movies: Title[];
+  // The rating-history trend needs Date Rated and the averages need your own ratings.
+  showRatings: boolean;
+  showTrend: boolean;
+}
+
+const GENRE_COLORS = ['#0ea5e9', '#f59e0b', '#10b981', '#f43f5e', '#a855f7', '#84cc16', '#ec4899', '#14b8a6', '#eab308', '#6366f1'];
+const GENRE_COUNTS = [5, 8, 10];
+
+const ShareTooltip: React.FC<any> = ({ active, payload, label }) => {
+    const { t, format } = useI18n();
+    if (active && payload && payload.length) {
+        return (
+            <div className="p-2 bg-slate-700 border border-slate-600 rounded-md shadow-lg">
+                <p className="label text-slate-200">{`${label} (${t.titleCount(payload[0].payload.total)})`}</p>
+                {payload.filter((entry: any) => entry.value > 0).map((entry: any) => (
+                    <p key={entry.name} style={{ color: entry.color }}>{`${entry.name}: ${format.number(entry.value, 1)} %`}</p>
+                ))}
+            </div>
+        );
+    }
+    return null;
+};
+
+// Darker cells for pairs that occur more often, relative to the most common pair.
+const cellStyle = (count: number, max: number) => ({ backgroundColor: `rgba(14, 165, 233, ${max > 0 ? 0.1 + 0.8 * (count / max) : 0})` });
+
+const GenreDashboard: React.FC<GenreDashboardProps> = ({ movies, showRatings, showTrend }) => {
+  const { t, format } = useI18n();
+  const [genreCount, setGenreCount] = useState<number>(8);
+
+  const allGenres = useMemo(() => genresByFrequency(movies), [movies]);
+  const topGenres = useMemo(() => allGenres.slice(0, genreCount), [allGenres, genreCount]);
+  const byDecade = useMemo(() => genreShareByDecade(movies, topGenres, t), [movies, topGenres, t]);
+  const trend = useMemo(() => (showTrend ? genreTrendByYearRated(movies, topGenres) : []), [movies, topGenres, showTrend]);
+  const averages = useMemo(() => averageRatingByGenre(movies, t), [movies, t]);
+  const cooccurrence = useMemo(() => genreCooccurrence(movies, topGenres), [movies, topGenres]);
+
+  const maxPair = useMemo(
+    () => Math.max(0, ...cooccurrence.counts.flatMap((row, i) => row.filter((_, j) => i !== j))),
+    [cooccurrence]
+  );
+
+  if (allGenres.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-sky-400">{t.genreDashboard.heading}</h2>
+        <select
+          value={genreCount}
+          onChange={(e) => setGenreCount(Number(e.target.value))}
+          className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200 text-sm"
+          aria-label={t.genreDashboard.genreCount}
+        >
+          {GENRE_COUNTS.map(count => <option key={count} value={count}>{t.genreDashboard.topGenres(count)}</option>)}
+        </select>
+      </div>
+
+      <h3 className="font-semibold text-slate-300 mb-2">{t.genreDashboard.shareByDecade}</h3>
+      <div className="w-full h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <BarChart data={byDecade} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+            <XAxis dataKey="label" stroke="#94a3b8" />
+            <YAxis stroke="#94a3b8" unit=" %" />
+            <Tooltip content={<ShareTooltip />} cursor={{ fill: 'rgba(71, 85, 105, 0.5)' }} />
+            <Legend wrapperStyle={{ color: '#e2e8f0' }} />
+            {topGenres.map((genre, index) => (
+              <Bar
+                key={genre}
+                dataKey={(point: GenreSharePoint) => point.shares[genre]}
+                name={genreLabel(t, genre)}
+                fill={GENRE_COLORS[index % GENRE_COLORS.length]}
+              />
+            ))}
+          </BarChart>
+        </ResponsiveContainer>
+      </div>
+
+      {trend.length > 1 && (
+        <>
+          <h3 className="font-semibold text-slate-300 mt-6 mb-2">{t.genreDashboard.shareByYearRated}</h3>
+          <div className="w-full h-80">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={trend} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+                <XAxis dataKey="label" stroke="#94a3b8" />
+                <YAxis stroke="#94a3b8" unit=" %" />
+                <Tooltip content={<ShareTooltip />} />
+                <Legend wrapperStyle={{ color: '#e2e8f0' }} />
+                {topGenres.map((genre, index) => (
+                  <Line
+                    key={genre}
+                    dataKey={(point: GenreSharePoint) => point.shares[genre]}
+                    name={genreLabel(t, genre)}
+                    stroke={GENRE_COLORS[index % GENRE_COLORS.length]}
+                    strokeWidth={2}
+                    dot={false}
+                  />
+                ))}
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+        {showRatings && (
+          <div>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.genreDashboard.averageByGenre}</h3>
+            <ul className="space-y-1 text-sm max-h-96 overflow-y-auto pr-2">
+              {averages.filter(group => group.average !== null).map(group => (
+                <li key={group.genre} className="p-1">
+                  <div className="flex justify-between gap-2">
+                    <span className="text-slate-300">{group.label} <span className="text-slate-500">({group.count})</span></span>
+                    <span className="font-semibold text-sky-400">{format.number(group.average!, 2)}</span>
+                  </div>
+                  <div className="h-1.5 mt-1 bg-slate-700 rounded">
+                    <div className="h-1.5 bg-sky-500 rounded" style={{ width: `${group.average! * 10}%` }} />
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        <div className={showRatings ? 'lg:col-span-2' : 'lg:col-span-3'}>
+          <h3 className="font-semibold text-slate-300 mb-2">{t.genreDashboard.cooccurrence}</h3>
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate border-spacing-0.5">
+              <thead>
+                <tr>
+                  <th />
+                  {cooccurrence.genres.map(genre => (
+                    <th key={genre} className="px-1 pb-1 text-slate-400 font-normal align-bottom">
+                      <span className="block [writing-mode:vertical-rl] rotate-180">{genreLabel(t, genre)}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {cooccurrence.genres.map((rowGenre, i) => (
+                  <tr key={rowGenre}>
+                    <th className="pr-2 text-right text-slate-400 font-normal whitespace-nowrap">{genreLabel(t, rowGenre)}</th>
+                    {cooccurrence.counts[i].map((count, j) => (
+                      <td
+                        key={cooccurrence.genres[j]}
+                        className={`w-9 h-7 text-center rounded ${i === j ? 'bg-slate-700 text-slate-500' : 'text-slate-100'}`}
+                        style={i === j ? undefined : cellStyle(count, maxPair)}
+                        title={i === j
+                          ? `${genreLabel(t, rowGenre)}: ${t.titleCount(count)}`
+                          : `${genreLabel(t, rowGenre)} + ${genreLabel(t, cooccurrence.genres[j])}: ${t.titleCount(count)}`}
+                      >
+                        {count}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default GenreDashboard;
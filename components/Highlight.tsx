@@ -0,0 +1,24 @@
+import React from 'react';
+import { highlightSegments } from '../utils/searchIndex';
+
+interface HighlightProps {
+  text: string;
+  tokens: Set<string>;
+}
+
+const Highlight: React.FC<HighlightProps> = ({ text, tokens }) => {
+  if (tokens.size === 0) return <>{text}</>;
+  return (
+    <>
+      {highlightSegments(text, tokens).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-sky-500/30 text-inherit rounded px-0.5">{segment.text}</mark>
+        ) : (
+          <React.Fragment key={index}>{segment.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+};
+
+export default Highlight;
@@ -0,0 +1,44 @@
+import React, { createContext, useContext, useState, useMemo, useEffect } from 'react';
+import { Locale } from '../types';
+import { createFormatters, detectLocale, saveLocale, Formatters, Messages, MESSAGES } from '../utils/i18n';
+
+interface I18nContextValue {
+  locale: Locale;
+  setLocale: (locale: Locale) => void;
+  t: Messages;
+  format: Formatters;
+}
+
+const I18nContext = createContext<I18nContextValue | null>(null);
+
+export const I18nProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(detectLocale);
+
+  const value = useMemo<I18nContextValue>(() => {
+    const t = MESSAGES[locale];
+    return {
+      locale,
+      setLocale: (next: Locale) => {
+        saveLocale(next);
+        setLocaleState(next);
+      },
+      t,
+      format: createFormatters(t),
+    };
+  }, [locale]);
+
+  useEffect(() => {
+    document.documentElement.lang = locale;
+    document.title = value.t.app.documentTitle;
+  }, [locale, value]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+};
+
+export const useI18n = (): I18nContextValue => {
+  const context = useContext(I18nContext);
+  if (!context) {
+    throw new Error('useI18n must be used inside an I18nProvider');
+  }
+  return context;
+};
@@ -0,0 +1,92 @@
+import React from 'react';
+import { ImportReport, TitleType } from '../types';
+import { IMPORT_FORMAT_LABELS } from '../utils/importAdapters';
+import { useI18n } from './I18nProvider';
+
+interface ImportReportPanelProps {
+  report: ImportReport;
+}
+
+const ImportReportPanel: React.FC<ImportReportPanelProps> = ({ report }) => {
+  const { t, format } = useI18n();
+  const titleTypes = (Object.entries(report.titleTypeCounts) as [TitleType, number][])
+    .sort((a, b) => b[1] - a[1]);
+
+  const stats = [
+    { label: t.importReport.totalRows, value: report.totalRows },
+    { label: t.importReport.parsedRows, value: report.parsedRows },
+    { label: t.importReport.skippedRows, value: report.skippedRows.length },
+    // Only diaries and histories have rewatches to merge.
+    ...(report.mergedRows ? [{ label: t.importReport.mergedRows, value: report.mergedRows }] : []),
+    { label: t.importReport.titleTypes, value: titleTypes.length },
+    { label: t.importReport.importedRows, value: report.importedRows },
+  ];
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-4 bg-slate-800 p-4 rounded-lg shadow-lg text-left">
+      <h2 className="text-lg font-bold text-sky-400 mb-1">{t.importReport.heading(report.fileName)}</h2>
+      <p className="text-xs text-slate-400 mb-3">
+        {t.importReport.format(IMPORT_FORMAT_LABELS[report.format ?? 'imdb'])} • {report.exportKind === 'list' ? t.importReport.listExport : t.importReport.ratingsExport}
+      </p>
+      <dl className={`grid grid-cols-2 ${stats.length > 5 ? 'sm:grid-cols-6' : 'sm:grid-cols-5'} gap-3 mb-3`}>
+        {stats.map(stat => (
+          <div key={stat.label} className="bg-slate-900/50 rounded-md p-2">
+            <dt className="text-xs text-slate-400">{stat.label}</dt>
+            <dd className="text-xl font-bold text-slate-100">{format.number(stat.value)}</dd>
+          </div>
+        ))}
+      </dl>
+
+      {report.missingRequiredColumns.length > 0 && (
+        <p className="text-sm text-red-300 mb-2">
+          <span className="font-semibold">{t.importReport.missingRequired}</span> {report.missingRequiredColumns.join(', ')}
+        </p>
+      )}
+
+      {report.missingOptionalColumns.length > 0 && (
+        <p className="text-sm text-amber-300 mb-2">
+          <span className="font-semibold">{t.importReport.missingOptional}</span> {report.missingOptionalColumns.join(', ')}. {t.importReport.missingOptionalHint}
+        </p>
+      )}
+
+      {titleTypes.length > 0 && (
+        <details className="mb-2">
+          <summary className="cursor-pointer text-sm text-slate-300">{t.importReport.byTitleType}</summary>
+          <ul className="mt-2 text-sm text-slate-400 space-y-1 pl-4">
+            {titleTypes.map(([type, count]) => (
+              <li key={type}>{t.titleTypes[type]}: {format.number(count)}</li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {report.skippedRows.length > 0 && (
+        <details className="mb-2">
+          <summary className="cursor-pointer text-sm text-slate-300">{t.importReport.skippedHeading(report.skippedRows.length)}</summary>
+          <ul className="mt-2 text-sm text-slate-400 space-y-1 pl-4 max-h-48 overflow-y-auto">
+            {report.skippedRows.map((row, index) => (
+              <li key={`${row.line}-${index}`}>
+                <span className="font-semibold text-slate-300">{t.importReport.line(row.line)}</span> {t.importReport.rowProblem(row)}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+
+      {report.warnings.length > 0 && (
+        <details>
+          <summary className="cursor-pointer text-sm text-slate-300">{t.importReport.warningsHeading(report.warnings.length)}</summary>
+          <ul className="mt-2 text-sm text-slate-400 space-y-1 pl-4 max-h-48 overflow-y-auto">
+            {report.warnings.map((warning, index) => (
+              <li key={`${warning.line}-${index}`}>
+                <span className="font-semibold text-slate-300">{t.importReport.line(warning.line)}</span> {t.importReport.rowProblem({ line: warning.line, reason: warning.code })}
+              </li>
+            ))}
+          </ul>
+        </details>
+      )}
+    </div>
+  );
+};
+
+export default ImportReportPanel;
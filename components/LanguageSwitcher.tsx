@@ -0,0 +1,25 @@
+import React from 'react';
+import { LOCALES, MESSAGES } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+const LanguageSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <div className="flex justify-end gap-2" role="group" aria-label={t.app.language}>
+      {LOCALES.map(option => (
+        <button
+          key={option}
+          onClick={() => setLocale(option)}
+          lang={option}
+          aria-pressed={locale === option}
+          className={`px-3 py-1 rounded-full text-sm transition-colors ${locale === option ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+        >
+          {MESSAGES[option].languageName}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default LanguageSwitcher;
@@ -1,18 +1,35 @@
 import React from 'react';
-import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
-import { ChartDataPoint } from '../types';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, Brush, ResponsiveContainer } from 'recharts';
+import { ChartConfig, ChartDataPoint, TitleType } from '../types';
+import { Formatters } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
 
 interface MovieChartProps {
   data: ChartDataPoint[];
-  onBarClick: (data: any) => void;
+  config: ChartConfig;
+  onBarClick: (data: ChartDataPoint) => void;
+  titleTypes?: TitleType[];
+  // Index range of the brush; when onBrushChange is given the chart shows a brush below the axis.
+  brushRange?: { startIndex: number; endIndex: number };
+  onBrushChange?: (startIndex: number, endIndex: number) => void;
 }
 
-const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+const TYPE_COLORS = ['#0ea5e9', '#f59e0b', '#10b981', '#f43f5e', '#a855f7', '#84cc16', '#ec4899', '#14b8a6', '#eab308', '#6366f1', '#f97316', '#22d3ee', '#94a3b8'];
+
+const formatValue = (format: Formatters, value: number) => (Number.isInteger(value) ? format.number(value) : format.number(value, 2));
+
+const CustomTooltip: React.FC<any> = ({ active, payload, label, config }) => {
+    const { t, format } = useI18n();
     if (active && payload && payload.length) {
+        const point: ChartDataPoint = payload[0].payload;
         return (
             <div className="p-2 bg-slate-700 border border-slate-600 rounded-md shadow-lg">
-                <p className="label text-slate-200">{`År: ${label}`}</p>
-                <p className="intro text-sky-400">{`Antal filmer: ${payload[0].value}`}</p>
+                <p className="label text-slate-200">{`${t.chart.dimensions[config.dimension]}: ${label}`}</p>
+                {payload.length > 1 && payload.filter((entry: any) => entry.value > 0).map((entry: any) => (
+                    <p key={entry.name} style={{ color: entry.color }}>{`${entry.name}: ${formatValue(format, entry.value)}`}</p>
+                ))}
+                <p className="intro text-sky-400">{`${t.chart.metrics[config.metric]}: ${formatValue(format, point.value)}`}</p>
+                {config.metric !== 'count' && <p className="text-slate-400">{t.chart.titleCount(point.count)}</p>}
             </div>
         );
     }
@@ -20,12 +37,22 @@ const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
 };
 
 
-const MovieChart: React.FC<MovieChartProps> = ({ data, onBarClick }) => {
+const MovieChart: React.FC<MovieChartProps> = ({ data, config, onBarClick, titleTypes = [], brushRange, onBrushChange }) => {
+  const { t } = useI18n();
+  const isStacked = config.mode === 'stacked' && titleTypes.length > 0;
+
+  // Matched on the label rather than the index, which is relative to the brushed slice.
+  const handleClick = (state: { activeLabel?: string | number }) => {
+    const point = data.find(entry => entry.label === String(state?.activeLabel));
+    if (point) onBarClick(point);
+  };
+
   return (
-    <div className="w-full h-96 md:h-[500px] bg-slate-800 p-4 rounded-lg shadow-lg mt-8">
+    <div className="w-full h-96 md:h-[500px] bg-slate-800 p-4 rounded-lg shadow-lg mt-4 cursor-pointer">
       <ResponsiveContainer width="100%" height="100%">
-        <BarChart
+        <ComposedChart
           data={data}
+          onClick={handleClick}
           margin={{
             top: 5,
             right: 20,
@@ -34,15 +61,41 @@ const MovieChart: React.FC<MovieChartProps> = ({ data, onBarClick }) => {
           }}
         >
           <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
-          <XAxis dataKey="year" stroke="#94a3b8" />
-          <YAxis stroke="#94a3b8" allowDecimals={false} />
-          <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(71, 85, 105, 0.5)' }} />
+          <XAxis dataKey="label" stroke="#94a3b8" />
+          <YAxis stroke="#94a3b8" allowDecimals={config.metric === 'averageRating' || config.metric === 'averageImdbRating'} />
+          <Tooltip content={<CustomTooltip config={config} />} cursor={{ fill: 'rgba(71, 85, 105, 0.5)' }} />
           <Legend wrapperStyle={{ color: '#e2e8f0' }} />
-          <Bar dataKey="count" name="Antal filmer" fill="#0ea5e9" cursor="pointer" onClick={(data) => onBarClick(data.payload)} />
-        </BarChart>
+          {isStacked ? (
+            titleTypes.map((type, index) => (
+              <Bar
+                key={type}
+                dataKey={(point: ChartDataPoint) => point.valuesByType[type] || 0}
+                name={t.titleTypes[type]}
+                stackId="titleType"
+                fill={TYPE_COLORS[index % TYPE_COLORS.length]}
+              />
+            ))
+          ) : config.mode === 'line' ? (
+            <Line dataKey="value" name={t.chart.metrics[config.metric]} stroke="#0ea5e9" strokeWidth={2} dot={{ r: 2 }} />
+          ) : (
+            <Bar dataKey="value" name={t.chart.metrics[config.metric]} fill="#0ea5e9" />
+          )}
+          {onBrushChange && data.length > 1 && (
+            <Brush
+              dataKey="label"
+              height={24}
+              stroke="#0ea5e9"
+              fill="#1e293b"
+              travellerWidth={8}
+              startIndex={brushRange?.startIndex}
+              endIndex={brushRange?.endIndex}
+              onDragEnd={({ startIndex, endIndex }) => onBrushChange(startIndex, endIndex)}
+            />
+          )}
+        </ComposedChart>
       </ResponsiveContainer>
     </div>
   );
 };
 
-export default MovieChart;
\ No newline at end of file
+export default MovieChart;
@@ -1,29 +1,36 @@
 import React, { useEffect, useMemo, useCallback, useState } from 'react';
 import ReactDOM from 'react-dom';
-import { IMDbEntry } from '../types';
+import { Title } from '../types';
+import Highlight from './Highlight';
+import VirtualList from './VirtualList';
+import { createSearchIndex } from '../utils/searchIndex';
+import { useI18n } from './I18nProvider';
 
 interface MovieDetailsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  year: string;
-  movies: IMDbEntry[];
+  title: string;
+  // Titles belonging to the clicked period; the modal only searches and sorts them.
+  movies: Title[];
+  onTitleSelect: (movie: Title) => void;
 }
 
-const MovieDetailsModal: React.FC<MovieDetailsModalProps> = ({ isOpen, onClose, year, movies }) => {
+const movieKey = (movie: Title) => movie.id;
+
+const MovieDetailsModal: React.FC<MovieDetailsModalProps> = ({ isOpen, onClose, title, movies, onTitleSelect }) => {
+  const { t } = useI18n();
   const [searchTerm, setSearchTerm] = useState('');
 
-  const sortedMovies = useMemo(() => {
-    return movies
-      .filter(movie => movie.Year === year)
-      .filter(movie =>
-        movie.Title.toLowerCase().includes(searchTerm.toLowerCase())
-      )
-      .sort((a, b) => {
-        const ratingA = parseInt(a['Your Rating'], 10);
-        const ratingB = parseInt(b['Your Rating'], 10);
-        return ratingB - ratingA;
-      });
-  }, [movies, year, searchTerm]);
+  const searchIndex = useMemo(() => createSearchIndex(movies), [movies]);
+
+  // Searches rank by relevance; otherwise the best rated titles come first.
+  const { sortedMovies, matchedTokens } = useMemo(() => {
+    if (searchTerm.trim() === '') {
+      return { sortedMovies: [...movies].sort((a, b) => (b.yourRating ?? 0) - (a.yourRating ?? 0)), matchedTokens: new Set<string>() };
+    }
+    const { hits, matchedTokens } = searchIndex.search(searchTerm);
+    return { sortedMovies: hits.map(hit => hit.title), matchedTokens };
+  }, [movies, searchIndex, searchTerm]);
 
   const handleKeyDown = useCallback((event: KeyboardEvent) => {
     if (event.key === 'Escape') {
@@ -63,12 +70,12 @@ const MovieDetailsModal: React.FC<MovieDetailsModalProps> = ({ isOpen, onClose,
       >
         <header className="flex items-center justify-between p-4 border-b border-slate-600">
           <h2 id="modal-title" className="text-2xl font-bold text-sky-400">
-            Filmer betygsatta år {year}
+            {title}
           </h2>
           <button
             onClick={onClose}
             className="text-slate-400 hover:text-white"
-            aria-label="Stäng"
+            aria-label={t.modal.close}
           >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
@@ -79,38 +86,43 @@ const MovieDetailsModal: React.FC<MovieDetailsModalProps> = ({ isOpen, onClose,
           <div className="mb-4">
             <input
               type="text"
-              placeholder="Sök efter titel..."
+              placeholder={t.modal.searchPlaceholder}
               value={searchTerm}
               onChange={(e) => setSearchTerm(e.target.value)}
               className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
-              aria-label="Filtrera filmer efter titel"
+              aria-label={t.modal.searchLabel}
             />
           </div>
           {sortedMovies.length > 0 ? (
-            <ul className="space-y-4">
-              {sortedMovies.map(movie => (
-                <li key={movie.Const} className="p-3 bg-slate-700/50 rounded-md flex justify-between items-center">
+            <VirtualList
+              items={sortedMovies}
+              getKey={movieKey}
+              estimatedItemHeight={52}
+              gap={16}
+              className="max-h-[60vh]"
+              ariaLabel={title}
+              onActivate={onTitleSelect}
+              renderItem={movie => (
+                <div className="p-3 bg-slate-700/50 rounded-md flex justify-between items-center">
                   <div>
-                    <a
-                      href={movie.URL}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="font-semibold text-slate-100 hover:text-sky-400 transition-colors"
+                    <button
+                      onClick={() => onTitleSelect(movie)}
+                      className="font-semibold text-slate-100 hover:text-sky-400 transition-colors text-left"
                     >
-                      {movie.Title}
-                    </a>
+                      <Highlight text={movie.title} tokens={matchedTokens} />
+                    </button>
                   </div>
                   <div className="flex items-center space-x-2 text-lg font-bold text-sky-400">
                       <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-400" viewBox="0 0 20 20" fill="currentColor">
                           <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                       </svg>
-                      <span>{movie['Your Rating']}</span>
+                      <span>{movie.yourRating}</span>
                   </div>
-                </li>
-              ))}
-            </ul>
+                </div>
+              )}
+            />
           ) : (
-            <p className="text-slate-400 text-center">Inga filmer matchade din sökning.</p>
+            <p className="text-slate-400 text-center">{t.search.noResults}</p>
           )}
         </main>
       </div>
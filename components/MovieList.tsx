@@ -1,205 +1,139 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { IMDbEntry } from '../types';
+import { AnnotationFlag, Annotations, ExportFormat, ExportKind, SortOption, Title, TitleAnnotation, TitleFilters } from '../types';
+import VirtualList from './VirtualList';
+import { useI18n } from './I18nProvider';
+import { genreLabel } from '../utils/i18n';
+import { ANNOTATION_FLAGS, annotationFor, tagsInUse } from '../utils/annotations';
+import { createEmptyFilters, hasActiveFilters, toggleInSet, yearBounds } from '../utils/filters';
+import { downloadFile, exportFileName, exportTitles, EXPORT_FORMATS } from '../utils/exportTitles';
 
 interface MovieListProps {
-  movies: IMDbEntry[];
+  // The titles left after the shared filters, in sortBy order; allMovies supplies the filter options.
+  movies: Title[];
+  allMovies: Title[];
+  filters: TitleFilters;
+  onFiltersChange: (filters: TitleFilters) => void;
+  sortBy: SortOption;
+  onSortChange: (sortBy: SortOption) => void;
   availableColumns: string[];
+  sources: string[];
+  mode: ExportKind;
+  // Your own tags and flags, keyed by title id.
+  annotations: Annotations;
+  onTitleSelect: (movie: Title) => void;
 }
 
-type SortOption = 'rating_desc' | 'rating_asc' | 'title_asc' | 'title_desc' | 'original_title_asc' | 'original_title_desc' | 'year_desc' | 'year_asc' | 'rated_date_desc' | 'rated_date_asc';
+const movieKey = (movie: Title) => movie.id;
 
-const genreTranslations: { [key: string]: string } = {
-    'Action': 'Action',
-    'Adventure': 'Äventyr',
-    'Animation': 'Animerat',
-    'Biography': 'Biografi',
-    'Comedy': 'Komedi',
-    'Crime': 'Kriminal',
-    'Documentary': 'Dokumentär',
-    'Drama': 'Drama',
-    'Family': 'Familj',
-    'Fantasy': 'Fantasy',
-    'Film-Noir': 'Film-Noir',
-    'History': 'Historia',
-    'Horror': 'Skräck',
-    'Music': 'Musik',
-    'Musical': 'Musikal',
-    'Mystery': 'Mysterium',
-    'Romance': 'Romantik',
-    'Sci-Fi': 'Sci-Fi',
-    'Short': 'Kortfilm',
-    'Sport': 'Sport',
-    'Thriller': 'Thriller',
-    'War': 'Krig',
-    'Western': 'Västern'
+const AnnotationBadges: React.FC<{ annotation: TitleAnnotation }> = ({ annotation }) => {
+  const { t } = useI18n();
+  if (annotation.tags.length === 0 && !ANNOTATION_FLAGS.some(flag => annotation[flag])) {
+    return null;
+  }
+  return (
+    <div className="flex flex-wrap gap-1 mt-2">
+      {ANNOTATION_FLAGS.filter(flag => annotation[flag]).map(flag => (
+        <span key={flag} className="px-2 py-0.5 rounded-full text-xs bg-amber-500/20 text-amber-300">{t.annotations.flags[flag]}</span>
+      ))}
+      {annotation.tags.map(tag => (
+        <span key={tag} className="px-2 py-0.5 rounded-full text-xs bg-slate-600 text-slate-200">#{tag}</span>
+      ))}
+    </div>
+  );
 };
 
-const MovieList: React.FC<MovieListProps> = ({ movies, availableColumns }) => {
-  const [selectedGenres, setSelectedGenres] = useState<Set<string>>(new Set());
-  const [selectedRatings, setSelectedRatings] = useState<Set<string>>(new Set());
-  const [yearRange, setYearRange] = useState({ min: '', max: '' });
-  const [directorSearchTerm, setDirectorSearchTerm] = useState('');
+const MovieList: React.FC<MovieListProps> = ({ movies, allMovies, filters, onFiltersChange, sortBy, onSortChange, availableColumns, sources, mode, annotations, onTitleSelect }) => {
+  const { t, format } = useI18n();
   const [showAllGenres, setShowAllGenres] = useState(false);
-  const [sortBy, setSortBy] = useState<SortOption>('rating_desc');
+  const [randomPick, setRandomPick] = useState<Title | null>(null);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('csv');
+  const isWatchlist = mode === 'list';
   
   const hasGenres = useMemo(() => availableColumns.includes('Genres'), [availableColumns]);
   const hasOriginalTitle = useMemo(() => availableColumns.includes('Original Title'), [availableColumns]);
   const hasDateRated = useMemo(() => availableColumns.includes('Date Rated'), [availableColumns]);
   const hasDirectors = useMemo(() => availableColumns.includes('Directors'), [availableColumns]);
   const hasCast = useMemo(() => availableColumns.includes('Cast'), [availableColumns]);
+  const hasImdbRating = useMemo(() => availableColumns.includes('IMDb Rating'), [availableColumns]);
+  const hasRuntime = useMemo(() => availableColumns.includes('Runtime (mins)'), [availableColumns]);
+  const hasCreated = useMemo(() => availableColumns.includes('Created'), [availableColumns]);
+  const hasMultipleSources = sources.length > 1;
+  const hasAnnotations = Object.keys(annotations).length > 0;
+
+  useEffect(() => {
+    setRandomPick(null);
+  }, [isWatchlist]);
 
-  const { allGenres, minYear, maxYear } = useMemo(() => {
-    if (!hasGenres) return { allGenres: [], minYear: Infinity, maxYear: -Infinity };
+  // Options come from the unfiltered titles so a selection can always be undone.
+  const allGenres = useMemo(() => {
+    if (!hasGenres) return [];
     const genreSet = new Set<string>();
-    let min = Infinity;
-    let max = -Infinity;
-    movies.forEach(movie => {
-      const year = parseInt(movie.Year, 10);
-      if (!isNaN(year)) {
-        if (year < min) min = year;
-        if (year > max) max = year;
-      }
-      const genres = movie.Genres?.split(', ').map(g => g.trim()).filter(g => g).map(g => genreTranslations[g] || g) || [];
-      genres.forEach(genre => genreSet.add(genre));
-    });
-    const sortedGenres = Array.from(genreSet).sort();
-    return { allGenres: sortedGenres, minYear: min, maxYear: max };
-  }, [movies, hasGenres]);
+    allMovies.forEach(movie => movie.genres.forEach(genre => genreSet.add(genre)));
+    return Array.from(genreSet).sort((a, b) => format.compare(genreLabel(t, a), genreLabel(t, b)));
+  }, [allMovies, hasGenres, t, format]);
 
-  useEffect(() => {
-    if (minYear !== Infinity && maxYear !== -Infinity) {
-      setYearRange({ min: String(minYear), max: String(maxYear) });
-    }
-  }, [minYear, maxYear]);
+  const allTags = useMemo(() => tagsInUse(annotations, format.compare), [annotations, format]);
+
+  const { min: minYear, max: maxYear } = useMemo(() => yearBounds(allMovies), [allMovies]);
 
   const handleGenreChange = (genre: string) => {
-    setSelectedGenres(prev => {
-      const newSet = new Set(prev);
-      if (newSet.has(genre)) {
-        newSet.delete(genre);
-      } else {
-        newSet.add(genre);
-      }
-      return newSet;
-    });
+    onFiltersChange({ ...filters, genres: toggleInSet(filters.genres, genre) });
   };
 
-  const handleRatingChange = (rating: string) => {
-    setSelectedRatings(prev => {
-        const newSet = new Set(prev);
-        if (newSet.has(rating)) {
-            newSet.delete(rating);
-        } else {
-            newSet.add(rating);
-        }
-        return newSet;
-    });
+  const handleRatingChange = (rating: number) => {
+    onFiltersChange({ ...filters, ratings: toggleInSet(filters.ratings, rating) });
   };
 
-  const handleYearChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const { name, value } = e.target;
-    setYearRange(prev => ({ ...prev, [name]: value }));
+  const handleSourceChange = (source: string) => {
+    onFiltersChange({ ...filters, sources: toggleInSet(filters.sources, source) });
   };
 
-  const filteredMovies = useMemo(() => {
-    const min = parseInt(yearRange.min, 10) || minYear;
-    const max = parseInt(yearRange.max, 10) || maxYear;
-    const directorSearch = directorSearchTerm.trim().toLowerCase();
-
-    const filtered = movies.filter(movie => {
-        // Year filter
-        const movieYear = parseInt(movie.Year, 10);
-        if (isNaN(movieYear) || movieYear < min || movieYear > max) {
-            return false;
-        }
-
-        // Genre filter
-        if (hasGenres && selectedGenres.size > 0) {
-            const movieGenres = new Set(movie.Genres?.split(', ').map(g => g.trim()).map(g => genreTranslations[g] || g) || []);
-            if (!Array.from(selectedGenres).every(selectedGenre => movieGenres.has(selectedGenre))) {
-                return false;
-            }
-        }
-
-        // Rating filter
-        if (selectedRatings.size > 0) {
-            if (!selectedRatings.has(movie['Your Rating'])) {
-                return false;
-            }
-        }
+  const handleTagChange = (tag: string) => {
+    onFiltersChange({ ...filters, tags: toggleInSet(filters.tags, tag) });
+  };
 
-        // Director filter
-        if (hasDirectors && directorSearch) {
-            const directors = movie['Directors']?.toLowerCase() || '';
-            if (!directors.includes(directorSearch)) {
-                return false;
-            }
-        }
+  const handleFlagChange = (flag: AnnotationFlag) => {
+    onFiltersChange({ ...filters, flags: toggleInSet(filters.flags, flag) });
+  };
 
-        return true;
-    });
+  const handleYearChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    onFiltersChange({ ...filters, yearRange: { ...filters.yearRange, [name]: value } });
+  };
 
-    return filtered.sort((a, b) => {
-      switch (sortBy) {
-        case 'rating_asc':
-            return parseInt(a['Your Rating'], 10) - parseInt(b['Your Rating'], 10);
-        case 'title_asc':
-          return a.Title.localeCompare(b.Title);
-        case 'title_desc':
-            return b.Title.localeCompare(a.Title);
-        case 'original_title_asc': {
-            if (!hasOriginalTitle) return 0;
-            const titleA = a['Original Title'] || a.Title;
-            const titleB = b['Original Title'] || b.Title;
-            return titleA.localeCompare(titleB);
-        }
-        case 'original_title_desc': {
-            if (!hasOriginalTitle) return 0;
-            const titleA = a['Original Title'] || a.Title;
-            const titleB = b['Original Title'] || b.Title;
-            return titleB.localeCompare(titleA);
-        }
-        case 'year_desc':
-          return parseInt(b.Year, 10) - parseInt(a.Year, 10);
-        case 'year_asc':
-          return parseInt(a.Year, 10) - parseInt(b.Year, 10);
-        case 'rated_date_desc':
-            if (!hasDateRated) return 0;
-            return new Date(b['Date Rated']).getTime() - new Date(a['Date Rated']).getTime();
-        case 'rated_date_asc':
-            if (!hasDateRated) return 0;
-            return new Date(a['Date Rated']).getTime() - new Date(b['Date Rated']).getTime();
-        case 'rating_desc':
-        default:
-          const ratingA = parseInt(a['Your Rating'], 10);
-          const ratingB = parseInt(b['Your Rating'], 10);
-          return ratingB - ratingA;
-      }
-    });
-  }, [movies, selectedGenres, selectedRatings, yearRange, directorSearchTerm, minYear, maxYear, sortBy, hasGenres, hasOriginalTitle, hasDateRated, hasDirectors]);
+  const handleRandomPick = () => {
+    if (movies.length === 0) return;
+    setRandomPick(movies[Math.floor(Math.random() * movies.length)]);
+  };
   
+  // Exports exactly what the list shows, in the same order.
+  const handleExport = () => {
+    if (movies.length === 0) return;
+    downloadFile(exportTitles(movies, exportFormat, availableColumns, annotations), exportFileName(exportFormat, isWatchlist, t));
+  };
+
   const displayedGenres = showAllGenres ? allGenres : allGenres.slice(0, 10);
 
   return (
-    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
-      <h2 className="text-2xl font-bold text-sky-400 mb-6">Alla Betygsatta Filmer</h2>
+    <div id="movie-list" className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
+      <h2 className="text-2xl font-bold text-sky-400 mb-6">{isWatchlist ? t.list.watchlistHeading : t.list.ratingsHeading}</h2>
       
       {/* Filters */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-6 p-4 bg-slate-900/50 rounded-lg">
         {/* Genre Filter */}
         {hasGenres && (
             <div className="md:col-span-2 lg:col-span-4">
-            <h3 className="font-semibold text-slate-300 mb-2">Filtrera på genre</h3>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.list.filterGenre}</h3>
             <div className="flex flex-wrap gap-2">
                 {displayedGenres.map(genre => (
                 <label key={genre} className="flex items-center space-x-2 cursor-pointer bg-slate-700 px-3 py-1 rounded-full text-sm hover:bg-slate-600 transition-colors">
                     <input
                     type="checkbox"
                     className="form-checkbox h-4 w-4 rounded bg-slate-800 border-slate-600 text-sky-500 focus:ring-sky-500"
-                    checked={selectedGenres.has(genre)}
+                    checked={filters.genres.has(genre)}
                     onChange={() => handleGenreChange(genre)}
                     />
-                    <span className="text-slate-300">{genre}</span>
+                    <span className="text-slate-300">{genreLabel(t, genre)}</span>
                 </label>
                 ))}
             </div>
@@ -208,7 +142,7 @@ const MovieList: React.FC<MovieListProps> = ({ movies, availableColumns }) => {
                 onClick={() => setShowAllGenres(!showAllGenres)}
                 className="text-sky-400 hover:text-sky-300 text-sm mt-2"
                 >
-                {showAllGenres ? 'Visa färre' : `Visa alla ${allGenres.length} genrer`}
+                {showAllGenres ? t.list.showFewerGenres : t.list.showAllGenres(allGenres.length)}
                 </button>
             )}
             </div>
@@ -216,38 +150,39 @@ const MovieList: React.FC<MovieListProps> = ({ movies, availableColumns }) => {
         
         {/* Year Filter */}
         <div>
-          <h3 className="font-semibold text-slate-300 mb-2">Filtrera på årtal</h3>
+          <h3 className="font-semibold text-slate-300 mb-2">{t.list.filterYear}</h3>
           <div className="flex items-center space-x-2">
             <input
               type="number"
               name="min"
-              value={yearRange.min}
+              value={filters.yearRange.min}
               onChange={handleYearChange}
-              placeholder={String(minYear)}
+              placeholder={minYear !== Infinity ? String(minYear) : ''}
               className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
             />
             <span className="text-slate-400">-</span>
             <input
               type="number"
               name="max"
-              value={yearRange.max}
+              value={filters.yearRange.max}
               onChange={handleYearChange}
-              placeholder={String(maxYear)}
+              placeholder={maxYear !== -Infinity ? String(maxYear) : ''}
               className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
             />
           </div>
         </div>
 
         {/* Rating Filter */}
+        {!isWatchlist && (
         <div>
-            <h3 className="font-semibold text-slate-300 mb-2">Filtrera på betyg</h3>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.list.filterRating}</h3>
             <div className="flex flex-wrap gap-x-3 gap-y-1">
-                {['10', '9', '8', '7', '6', '5', '4', '3', '2', '1'].map(rating => (
+                {[10, 9, 8, 7, 6, 5, 4, 3, 2, 1].map(rating => (
                     <label key={rating} className="flex items-center space-x-1 cursor-pointer">
                         <input
                             type="checkbox"
                             className="form-checkbox h-4 w-4 rounded bg-slate-800 border-slate-600 text-sky-500 focus:ring-sky-500"
-                            checked={selectedRatings.has(rating)}
+                            checked={filters.ratings.has(rating)}
                             onChange={() => handleRatingChange(rating)}
                         />
                         <span className="text-slate-300">{rating}</span>
@@ -255,78 +190,234 @@ const MovieList: React.FC<MovieListProps> = ({ movies, availableColumns }) => {
                 ))}
             </div>
         </div>
+        )}
         
         {/* Director Filter */}
         {hasDirectors && (
             <div>
-            <h3 className="font-semibold text-slate-300 mb-2">Filtrera regissör</h3>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.list.filterDirector}</h3>
+            <input
+                type="text"
+                value={filters.director}
+                onChange={(e) => onFiltersChange({ ...filters, director: e.target.value })}
+                placeholder={t.list.directorPlaceholder}
+                className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
+                aria-label={t.list.filterDirector}
+            />
+            </div>
+        )}
+
+        {/* Cast Filter */}
+        {hasCast && (
+            <div>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.list.filterCast}</h3>
             <input
                 type="text"
-                value={directorSearchTerm}
-                onChange={(e) => setDirectorSearchTerm(e.target.value)}
-                placeholder="Sök regissör..."
+                value={filters.cast}
+                onChange={(e) => onFiltersChange({ ...filters, cast: e.target.value })}
+                placeholder={t.list.castPlaceholder}
                 className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
-                aria-label="Filtrera regissör"
+                aria-label={t.list.filterCast}
             />
             </div>
         )}
 
+        {/* Source Filter */}
+        {hasMultipleSources && (
+            <div>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.list.filterSource}</h3>
+            <div className="flex flex-col gap-1">
+                {sources.map(source => (
+                    <label key={source} className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            className="form-checkbox h-4 w-4 rounded bg-slate-800 border-slate-600 text-sky-500 focus:ring-sky-500"
+                            checked={filters.sources.has(source)}
+                            onChange={() => handleSourceChange(source)}
+                        />
+                        <span className="text-slate-300 text-sm truncate">{source}</span>
+                    </label>
+                ))}
+            </div>
+            </div>
+        )}
+
+        {/* Tag Filter */}
+        {hasAnnotations && (
+            <div className="md:col-span-2 lg:col-span-4">
+            <h3 className="font-semibold text-slate-300 mb-2">{t.list.filterTags}</h3>
+            <div className="flex flex-wrap gap-2">
+                {ANNOTATION_FLAGS.map(flag => (
+                <button
+                    key={flag}
+                    onClick={() => handleFlagChange(flag)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${filters.flags.has(flag) ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                    aria-pressed={filters.flags.has(flag)}
+                >
+                    {t.annotations.flags[flag]}
+                </button>
+                ))}
+                {allTags.map(tag => (
+                <button
+                    key={tag}
+                    onClick={() => handleTagChange(tag)}
+                    className={`px-3 py-1 rounded-full text-sm transition-colors ${filters.tags.has(tag) ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+                    aria-pressed={filters.tags.has(tag)}
+                >
+                    #{tag}
+                </button>
+                ))}
+            </div>
+            </div>
+        )}
+
         {/* Sorting */}
         <div>
-            <h3 className="font-semibold text-slate-300 mb-2">Sortera efter</h3>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.list.sortBy}</h3>
             <select
                 value={sortBy}
-                onChange={(e) => setSortBy(e.target.value as SortOption)}
+                onChange={(e) => onSortChange(e.target.value as SortOption)}
                 className="w-full px-3 py-2 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
-                aria-label="Sortera filmer"
+                aria-label={t.list.sortLabel}
             >
-                <option value="rating_desc">Betyg (fallande)</option>
-                <option value="rating_asc">Betyg (stigande)</option>
-                <option value="title_asc">Titel (A-Ö)</option>
-                <option value="title_desc">Titel (Ö-A)</option>
-                {hasOriginalTitle && <option value="original_title_asc">Originaltitel (A-Ö)</option>}
-                {hasOriginalTitle && <option value="original_title_desc">Originaltitel (Ö-A)</option>}
-                <option value="year_desc">Årtal (nyast först)</option>
-                <option value="year_asc">Årtal (äldst först)</option>
-                {hasDateRated && <option value="rated_date_desc">Datum betygsatt (nyast först)</option>}
-                {hasDateRated && <option value="rated_date_asc">Datum betygsatt (äldst först)</option>}
+                {!isWatchlist && <option value="rating_desc">{t.sorts.rating_desc}</option>}
+                {!isWatchlist && <option value="rating_asc">{t.sorts.rating_asc}</option>}
+                {hasImdbRating && <option value="imdb_rating_desc">{t.sorts.imdb_rating_desc}</option>}
+                {hasImdbRating && <option value="imdb_rating_asc">{t.sorts.imdb_rating_asc}</option>}
+                <option value="title_asc">{t.sorts.title_asc}</option>
+                <option value="title_desc">{t.sorts.title_desc}</option>
+                {hasOriginalTitle && <option value="original_title_asc">{t.sorts.original_title_asc}</option>}
+                {hasOriginalTitle && <option value="original_title_desc">{t.sorts.original_title_desc}</option>}
+                <option value="year_desc">{t.sorts.year_desc}</option>
+                <option value="year_asc">{t.sorts.year_asc}</option>
+                {hasDateRated && <option value="rated_date_desc">{t.sorts.rated_date_desc}</option>}
+                {hasDateRated && <option value="rated_date_asc">{t.sorts.rated_date_asc}</option>}
+                {hasRuntime && <option value="runtime_asc">{t.sorts.runtime_asc}</option>}
+                {hasRuntime && <option value="runtime_desc">{t.sorts.runtime_desc}</option>}
+                {hasCreated && <option value="created_desc">{t.sorts.created_desc}</option>}
+                {hasCreated && <option value="created_asc">{t.sorts.created_asc}</option>}
+                {hasAnnotations && <option value="tags_asc">{t.sorts.tags_asc}</option>}
+                {hasAnnotations && <option value="favourites_first">{t.sorts.favourites_first}</option>}
+                {hasAnnotations && <option value="rewatch_first">{t.sorts.rewatch_first}</option>}
             </select>
         </div>
       </div>
 
       {/* Movie List */}
-      <p className="text-slate-400 mb-4">{filteredMovies.length} filmer matchar ditt filter.</p>
-      <ul className="space-y-4 max-h-[70vh] overflow-y-auto pr-2">
-        {filteredMovies.map(movie => (
-          <li key={movie.Const} className="p-3 bg-slate-700/50 rounded-md flex flex-col sm:flex-row justify-between sm:items-center gap-4">
-            <div className="flex-grow">
-              <a
-                href={movie.URL}
-                target="_blank"
-                rel="noopener noreferrer"
-                className="font-semibold text-lg text-slate-100 hover:text-sky-400 transition-colors"
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-4">
+        <p className="text-slate-400">
+          {t.list.matching(movies.length)}
+          {filters.person && (
+            <span className="ml-3 inline-flex items-center gap-1 bg-sky-600 text-white pl-3 pr-1 py-0.5 rounded-full text-sm">
+              {t.list.person(filters.person.role, filters.person.name)}
+              <button
+                onClick={() => onFiltersChange({ ...filters, person: null })}
+                className="px-1 hover:text-slate-200"
+                aria-label={t.list.clearPerson(filters.person.name)}
               >
-                {movie.Title}
-              </a>
-              <p className="text-sm text-slate-400 mt-1">{movie.Year} {hasGenres && movie.Genres && `• ${movie.Genres.split(', ').map(g => genreTranslations[g.trim()] || g.trim()).join(', ')}`}</p>
-              {hasDirectors && movie['Directors'] && <p className="text-xs text-slate-400 mt-1"><span className="font-semibold text-slate-300">Regi:</span> {movie['Directors']}</p>}
-              {hasCast && movie['Cast'] && <p className="text-xs text-slate-400 mt-1"><span className="font-semibold text-slate-300">Medverkande:</span> {movie['Cast']}</p>}
-              {hasDateRated && movie['Date Rated'] && <p className="text-xs text-slate-500 mt-1">Betygsatt: {movie['Date Rated']}</p>}
-            </div>
-            <div className="flex-shrink-0 flex items-center space-x-2 text-xl font-bold text-sky-400 self-end sm:self-center">
-              <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-yellow-400" viewBox="0 0 20 20" fill="currentColor">
-                <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
-              </svg>
-              <span>{movie['Your Rating']}</span>
-            </div>
-          </li>
-        ))}
-         {filteredMovies.length === 0 && (
-            <div className="text-center text-slate-400 py-8">
-                <p>Inga filmer matchade ditt filter.</p>
+                ×
+              </button>
+            </span>
+          )}
+          {hasActiveFilters(filters) && (
+            <button onClick={() => onFiltersChange(createEmptyFilters())} className="ml-3 text-sky-400 hover:text-sky-300 text-sm">
+              {t.list.clearFilters}
+            </button>
+          )}
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200 text-sm"
+            aria-label={t.list.exportFormat}
+          >
+            {EXPORT_FORMATS.map(option => (
+              <option key={option} value={option}>{t.exportFormats[option]}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleExport}
+            disabled={movies.length === 0}
+            className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            title={t.list.exportHint}
+          >
+            {t.list.export}
+          </button>
+          {isWatchlist && (
+            <button
+              onClick={handleRandomPick}
+              disabled={movies.length === 0}
+              className="px-3 py-1 bg-sky-600 hover:bg-sky-500 text-white rounded-md text-sm disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {t.list.randomPick}
+            </button>
+          )}
+        </div>
+      </div>
+      {isWatchlist && randomPick && (
+        <div className="mb-4 p-4 bg-sky-900/40 border border-sky-700 rounded-md">
+          <p className="text-xs uppercase tracking-wide text-sky-300 mb-1">{t.list.tonightsPick}</p>
+          <button
+            onClick={() => onTitleSelect(randomPick)}
+            className="font-semibold text-lg text-slate-100 hover:text-sky-400 transition-colors text-left"
+          >
+            {randomPick.title}
+          </button>
+          <p className="text-sm text-slate-400 mt-1">
+            {randomPick.year}
+            {randomPick.runtimeMinutes !== null && ` • ${t.drawer.minutes(randomPick.runtimeMinutes)}`}
+            {randomPick.imdbRating !== null && ` • ${t.list.imdbRating(format.number(randomPick.imdbRating))}`}
+          </p>
+        </div>
+      )}
+      {movies.length > 0 ? (
+        <VirtualList
+          items={movies}
+          getKey={movieKey}
+          estimatedItemHeight={120}
+          gap={16}
+          scrollKey="movie-list"
+          className="max-h-[70vh] pr-2"
+          ariaLabel={t.list.listLabel}
+          onActivate={onTitleSelect}
+          renderItem={movie => (
+            <div className="p-3 bg-slate-700/50 rounded-md flex flex-col sm:flex-row justify-between sm:items-center gap-4">
+              <div className="flex-grow">
+                <button
+                  onClick={() => onTitleSelect(movie)}
+                  className="font-semibold text-lg text-slate-100 hover:text-sky-400 transition-colors text-left"
+                >
+                  {movie.title}
+                </button>
+                <p className="text-sm text-slate-400 mt-1">{movie.year} {movie.titleType !== 'movie' && `• ${t.titleTypes[movie.titleType]} `}{hasGenres && movie.genres.length > 0 && `• ${movie.genres.map(genre => genreLabel(t, genre)).join(', ')}`}</p>
+                {hasDirectors && movie.directors.length > 0 && <p className="text-xs text-slate-400 mt-1"><span className="font-semibold text-slate-300">{t.list.directedBy}</span> {movie.directors.join(', ')}</p>}
+                {hasCast && movie.cast.length > 0 && <p className="text-xs text-slate-400 mt-1"><span className="font-semibold text-slate-300">{t.list.cast}</span> {movie.cast.join(', ')}</p>}
+                {hasDateRated && movie.dateRated && <p className="text-xs text-slate-500 mt-1">{t.list.rated(format.date(movie.dateRated))}</p>}
+                {isWatchlist && (movie.runtimeMinutes !== null || movie.created) && (
+                  <p className="text-xs text-slate-500 mt-1">
+                    {movie.runtimeMinutes !== null && t.drawer.minutes(movie.runtimeMinutes)}
+                    {movie.runtimeMinutes !== null && movie.created && ' • '}
+                    {movie.created && t.list.added(format.date(movie.created))}
+                  </p>
+                )}
+                {hasMultipleSources && <p className="text-xs text-slate-500 mt-1">{t.list.source(movie.sources.join(', '))}</p>}
+                <AnnotationBadges annotation={annotationFor(annotations, movie.id)} />
+              </div>
+              <div className="flex-shrink-0 flex items-center space-x-2 text-xl font-bold text-sky-400 self-end sm:self-center">
+                <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6 text-yellow-400" viewBox="0 0 20 20" fill="currentColor">
+                  <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+                </svg>
+                <span>{isWatchlist ? (movie.imdbRating !== null ? format.number(movie.imdbRating) : '–') : movie.yourRating}</span>
+              </div>
             </div>
-         )}
-      </ul>
+          )}
+        />
+      ) : (
+        <div className="text-center text-slate-400 py-8">
+          <p>{t.list.noMatches}</p>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,149 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { PeopleSort, PersonRole, PersonStats, Title } from '../types';
+import { buildPeopleStats, rankPeople, PEOPLE_SORTS } from '../utils/people';
+import { useI18n } from './I18nProvider';
+
+interface PeopleLeaderboardProps {
+  movies: Title[];
+  roles: PersonRole[];
+  // Ratings are hidden for watchlists, which have none.
+  showRatings: boolean;
+  onPersonSelect: (role: PersonRole, name: string) => void;
+}
+
+const PAGE_SIZE = 25;
+
+const TitleLink: React.FC<{ movie: Title | null }> = ({ movie }) =>
+  movie ? (
+    <a href={movie.url} target="_blank" rel="noopener noreferrer" className="text-slate-300 hover:text-sky-400 transition-colors">
+      {movie.title} <span className="text-slate-500">({movie.yourRating})</span>
+    </a>
+  ) : (
+    <span className="text-slate-500">–</span>
+  );
+
+const yearSpan = (person: PersonStats) =>
+  person.firstYear === null ? '–' : person.firstYear === person.lastYear ? String(person.firstYear) : `${person.firstYear}–${person.lastYear}`;
+
+const PeopleLeaderboard: React.FC<PeopleLeaderboardProps> = ({ movies, roles, showRatings, onPersonSelect }) => {
+  const { t, format } = useI18n();
+  const [role, setRole] = useState<PersonRole>(roles[0]);
+  const [sort, setSort] = useState<PeopleSort>('count');
+  const [minTitles, setMinTitles] = useState<number>(3);
+  const [visibleCount, setVisibleCount] = useState<number>(PAGE_SIZE);
+
+  useEffect(() => {
+    if (!roles.includes(role)) setRole(roles[0]);
+  }, [roles, role]);
+
+  useEffect(() => {
+    if (!showRatings && sort === 'averageRating') setSort('count');
+  }, [showRatings, sort]);
+
+  const people = useMemo(() => buildPeopleStats(movies, role), [movies, role]);
+  const ranked = useMemo(() => rankPeople(people, sort, minTitles, t.languageTag), [people, sort, minTitles, t.languageTag]);
+
+  useEffect(() => {
+    setVisibleCount(PAGE_SIZE);
+  }, [ranked]);
+
+  if (roles.length === 0 || people.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-sky-400">{t.people.heading}</h2>
+        <div className="flex gap-2">
+          {roles.map(option => (
+            <button
+              key={option}
+              onClick={() => setRole(option)}
+              className={`px-3 py-1 rounded-full text-sm transition-colors ${role === option ? 'bg-sky-600 text-white' : 'bg-slate-700 text-slate-300 hover:bg-slate-600'}`}
+            >
+              {t.people.roles[option]}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 mb-4 text-sm">
+        <label className="flex items-center gap-2 text-slate-400">
+          {t.people.sortBy}
+          <select
+            value={sort}
+            onChange={(e) => setSort(e.target.value as PeopleSort)}
+            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
+          >
+            {PEOPLE_SORTS
+              .filter(option => showRatings || option !== 'averageRating')
+              .map(option => <option key={option} value={option}>{t.people.sorts[option]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2 text-slate-400">
+          {t.people.atLeast}
+          <input
+            type="number"
+            min={1}
+            value={minTitles}
+            onChange={(e) => setMinTitles(Math.max(1, Number(e.target.value) || 1))}
+            className="w-16 px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
+          />
+          {t.people.titles}
+        </label>
+        <span className="text-slate-500">{t.people.peopleCount(ranked.length)}</span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-slate-400 border-b border-slate-700">
+              <th className="py-2 pr-2">#</th>
+              <th className="py-2 pr-2">{t.people.name}</th>
+              <th className="py-2 pr-2 text-right">{t.people.titleCount}</th>
+              {showRatings && <th className="py-2 pr-2 text-right">{t.people.average}</th>}
+              {showRatings && <th className="py-2 pr-2">{t.people.best}</th>}
+              {showRatings && <th className="py-2 pr-2">{t.people.worst}</th>}
+              <th className="py-2">{t.people.active}</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ranked.slice(0, visibleCount).map((person, index) => (
+              <tr key={person.name} className="border-b border-slate-700/50 align-top">
+                <td className="py-2 pr-2 text-slate-500">{index + 1}</td>
+                <td className="py-2 pr-2">
+                  <button
+                    onClick={() => onPersonSelect(role, person.name)}
+                    className="font-semibold text-slate-100 hover:text-sky-400 transition-colors text-left"
+                    title={t.people.showTitles}
+                  >
+                    {person.name}
+                  </button>
+                </td>
+                <td className="py-2 pr-2 text-right text-slate-300">{person.count}</td>
+                {showRatings && (
+                  <td className="py-2 pr-2 text-right font-semibold text-sky-400">
+                    {person.averageRating !== null ? format.number(person.averageRating, 2) : '–'}
+                  </td>
+                )}
+                {showRatings && <td className="py-2 pr-2"><TitleLink movie={person.best} /></td>}
+                {showRatings && <td className="py-2 pr-2"><TitleLink movie={person.count > 1 ? person.worst : null} /></td>}
+                <td className="py-2 text-slate-400 whitespace-nowrap">{yearSpan(person)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {ranked.length === 0 && <p className="text-sm text-slate-500 mt-4">{t.people.noneWithThatMany}</p>}
+      {ranked.length > visibleCount && (
+        <button onClick={() => setVisibleCount(count => count + PAGE_SIZE)} className="text-sky-400 hover:text-sky-300 text-sm mt-4">
+          {t.people.showMore}
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PeopleLeaderboard;
@@ -0,0 +1,170 @@
+import React, { useMemo } from 'react';
+import { ScatterChart, Scatter, XAxis, YAxis, ZAxis, CartesianGrid, Tooltip, ReferenceLine, ResponsiveContainer } from 'recharts';
+import { DeviationGroup, Title } from '../types';
+import {
+  ComparedTitle,
+  averageDeviation,
+  comparableTitles,
+  deviation,
+  deviationByDecade,
+  deviationByGenre,
+  mostOverrated,
+  mostUnderrated,
+  obscurity,
+  obscurityScore,
+} from '../utils/ratingComparison';
+import { Formatters } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+interface RatingComparisonProps {
+  movies: Title[];
+}
+
+const LIST_LENGTH = 10;
+
+const formatDeviation = (format: Formatters, value: number) => `${value > 0 ? '+' : ''}${format.number(value, 2)}`;
+
+const deviationColor = (value: number) => (value > 0 ? 'text-green-400' : value < 0 ? 'text-red-400' : 'text-slate-400');
+
+const CustomTooltip: React.FC<any> = ({ active, payload }) => {
+    const { t, format } = useI18n();
+    if (active && payload && payload.length) {
+        const movie: ComparedTitle = payload[0].payload;
+        return (
+            <div className="p-2 bg-slate-700 border border-slate-600 rounded-md shadow-lg">
+                <p className="label text-slate-200">{`${movie.title} (${movie.year})`}</p>
+                <p className="intro text-sky-400">{t.comparison.yourRatingValue(movie.yourRating)}</p>
+                <p className="text-amber-400">{`IMDb: ${format.number(movie.imdbRating)}`}</p>
+            </div>
+        );
+    }
+    return null;
+};
+
+const openTitle = (movie: Title) => {
+  if (movie.url) window.open(movie.url, '_blank', 'noopener,noreferrer');
+};
+
+const DeviationTable: React.FC<{ heading: string; groups: DeviationGroup[] }> = ({ heading, groups }) => {
+  const { format } = useI18n();
+  return (
+    <div>
+      <h3 className="font-semibold text-slate-300 mb-2">{heading}</h3>
+      <ul className="space-y-1 text-sm max-h-64 overflow-y-auto pr-2">
+        {groups.map(group => (
+          <li key={group.key} className="flex justify-between gap-2 p-1 bg-slate-700/30 rounded">
+            <span className="text-slate-300">{group.label} <span className="text-slate-500">({group.count})</span></span>
+            <span className={`font-semibold ${deviationColor(group.averageDeviation)}`}>{formatDeviation(format, group.averageDeviation)}</span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+const DisagreementList: React.FC<{ heading: string; movies: ComparedTitle[] }> = ({ heading, movies }) => {
+  const { t, format } = useI18n();
+  return (
+    <div>
+      <h3 className="font-semibold text-slate-300 mb-2">{heading}</h3>
+      <ul className="space-y-2">
+        {movies.map(movie => (
+          <li key={movie.id} className="p-2 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
+            <div className="flex-grow">
+              <a
+                href={movie.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="font-semibold text-slate-100 hover:text-sky-400 transition-colors"
+              >
+                {movie.title}
+              </a>
+              <p className="text-xs text-slate-400">{movie.year} • {t.comparison.youVersusImdb(movie.yourRating, format.number(movie.imdbRating))}</p>
+            </div>
+            <span className={`flex-shrink-0 font-bold ${deviationColor(deviation(movie))}`}>{formatDeviation(format, deviation(movie))}</span>
+          </li>
+        ))}
+        {movies.length === 0 && <li className="text-sm text-slate-500">{t.comparison.noTitles}</li>}
+      </ul>
+    </div>
+  );
+};
+
+const RatingComparison: React.FC<RatingComparisonProps> = ({ movies }) => {
+  const { t, format } = useI18n();
+  const compared = useMemo(() => comparableTitles(movies), [movies]);
+  const overall = useMemo(() => averageDeviation(compared), [compared]);
+  const byGenre = useMemo(() => deviationByGenre(compared, t), [compared, t]);
+  const byDecade = useMemo(() => deviationByDecade(compared, t), [compared, t]);
+  const overrated = useMemo(() => mostOverrated(compared, LIST_LENGTH), [compared]);
+  const underrated = useMemo(() => mostUnderrated(compared, LIST_LENGTH), [compared]);
+  const score = useMemo(() => obscurityScore(movies), [movies]);
+  const mostObscure = useMemo(
+    () => movies.filter(movie => movie.numVotes !== null).sort((a, b) => (a.numVotes ?? 0) - (b.numVotes ?? 0)).slice(0, 5),
+    [movies]
+  );
+
+  if (compared.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg text-left">
+      <h2 className="text-2xl font-bold text-sky-400 mb-4">{t.comparison.heading}</h2>
+
+      <dl className="grid grid-cols-1 sm:grid-cols-3 gap-3 mb-6">
+        <div className="bg-slate-900/50 rounded-md p-3">
+          <dt className="text-xs text-slate-400">{t.comparison.comparedTitles}</dt>
+          <dd className="text-2xl font-bold text-slate-100">{format.number(compared.length)}</dd>
+        </div>
+        <div className="bg-slate-900/50 rounded-md p-3">
+          <dt className="text-xs text-slate-400">{t.comparison.averageDeviation}</dt>
+          <dd className={`text-2xl font-bold ${deviationColor(overall ?? 0)}`}>{overall !== null ? formatDeviation(format, overall) : '–'}</dd>
+        </div>
+        <div className="bg-slate-900/50 rounded-md p-3">
+          <dt className="text-xs text-slate-400">{t.comparison.obscurityScore}</dt>
+          <dd className="text-2xl font-bold text-slate-100">{score !== null ? Math.round(score) : '–'}</dd>
+        </div>
+      </dl>
+
+      <div className="w-full h-96">
+        <ResponsiveContainer width="100%" height="100%">
+          <ScatterChart margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+            <XAxis type="number" dataKey="imdbRating" name={t.comparison.imdbRating} domain={[1, 10]} stroke="#94a3b8" />
+            <YAxis type="number" dataKey="yourRating" name={t.comparison.yourRating} domain={[1, 10]} allowDecimals={false} stroke="#94a3b8" />
+            <ZAxis range={[30, 30]} />
+            <Tooltip content={<CustomTooltip />} cursor={{ strokeDasharray: '3 3' }} />
+            <ReferenceLine segment={[{ x: 1, y: 1 }, { x: 10, y: 10 }]} stroke="#64748b" strokeDasharray="4 4" />
+            <Scatter data={compared} fill="#0ea5e9" fillOpacity={0.5} cursor="pointer" onClick={(point) => openTitle(point.payload)} />
+          </ScatterChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+        <DeviationTable heading={t.comparison.byGenre} groups={byGenre} />
+        <DeviationTable heading={t.comparison.byDecade} groups={byDecade} />
+        <DisagreementList heading={t.comparison.overrated} movies={overrated} />
+        <DisagreementList heading={t.comparison.underrated} movies={underrated} />
+      </div>
+
+      {mostObscure.length > 0 && (
+        <div className="mt-6">
+          <h3 className="font-semibold text-slate-300 mb-2">{t.comparison.mostObscure}</h3>
+          <ul className="space-y-1 text-sm">
+            {mostObscure.map(movie => (
+              <li key={movie.id} className="flex justify-between gap-2">
+                <a href={movie.url} target="_blank" rel="noopener noreferrer" className="text-slate-200 hover:text-sky-400 transition-colors">
+                  {movie.title} <span className="text-slate-500">({movie.year})</span>
+                </a>
+                <span className="text-slate-400">{t.comparison.votes(movie.numVotes ?? 0)} • {Math.round(obscurity(movie.numVotes ?? 0))}</span>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RatingComparison;
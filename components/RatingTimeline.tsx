@@ -0,0 +1,161 @@
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+import MovieDetailsModal from './MovieDetailsModal';
+import CalendarHeatmap from './CalendarHeatmap';
+import { Title, TimelineGranularity, TimelinePoint } from '../types';
+import { buildTimeline, countRatingsPerDay, findLongestStreaks, titlesRatedIn } from '../utils/timeline';
+import { useI18n } from './I18nProvider';
+
+interface RatingTimelineProps {
+  movies: Title[];
+  onTitleSelect: (movie: Title) => void;
+}
+
+interface DrillDown {
+  title: string;
+  movies: Title[];
+}
+
+const ROLLING_WINDOWS = [3, 6, 12];
+
+const CustomTooltip: React.FC<any> = ({ active, payload, label }) => {
+    const { t, format } = useI18n();
+    if (active && payload && payload.length) {
+        const point: TimelinePoint = payload[0].payload;
+        return (
+            <div className="p-2 bg-slate-700 border border-slate-600 rounded-md shadow-lg">
+                <p className="label text-slate-200">{label}</p>
+                <p className="intro text-sky-400">{`${t.timeline.ratingCount}: ${format.number(point.count)}`}</p>
+                {point.average !== null && <p className="text-amber-400">{`${t.timeline.average}: ${format.number(point.average, 2)}`}</p>}
+                {point.rollingAverage !== null && <p className="text-emerald-400">{`${t.timeline.rollingAverage}: ${format.number(point.rollingAverage, 2)}`}</p>}
+            </div>
+        );
+    }
+    return null;
+};
+
+const RatingTimeline: React.FC<RatingTimelineProps> = ({ movies, onTitleSelect }) => {
+  const { t, format } = useI18n();
+  const [granularity, setGranularity] = useState<TimelineGranularity>('month');
+  const [rollingWindow, setRollingWindow] = useState<number>(6);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const timeline = useMemo(
+    () => buildTimeline(movies, granularity, rollingWindow, t.languageTag),
+    [movies, granularity, rollingWindow, t.languageTag]
+  );
+  const dailyCounts = useMemo(() => countRatingsPerDay(movies), [movies]);
+  const streaks = useMemo(() => findLongestStreaks(movies, 5), [movies]);
+
+  const years = useMemo(
+    () => Array.from(new Set(Array.from(dailyCounts.keys()).map((day: string) => Number(day.substring(0, 4))))).sort((a, b) => b - a),
+    [dailyCounts]
+  );
+  const [heatmapYear, setHeatmapYear] = useState<number | null>(null);
+
+  // Filtering changes the years on offer; the chosen one stays as long as it is still there.
+  useEffect(() => {
+    setHeatmapYear(current => (current !== null && years.includes(current) ? current : years[0] ?? null));
+  }, [years]);
+
+  const handlePeriodClick = useCallback((point: TimelinePoint) => {
+    if (!point || point.count === 0) return;
+    setDrillDown({ title: t.timeline.ratedIn(point.label), movies: titlesRatedIn(movies, point.period, granularity) });
+  }, [movies, granularity, t]);
+
+  const handleDayClick = useCallback((day: string) => {
+    const [year, month, date] = day.split('-').map(Number);
+    setDrillDown({ title: t.timeline.ratedIn(format.date(new Date(year, month - 1, date))), movies: titlesRatedIn(movies, day, 'day') });
+  }, [movies, t, format]);
+
+  if (timeline.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-sky-400">{t.timeline.heading}</h2>
+        <div className="flex items-center gap-3 text-sm">
+          <select
+            value={granularity}
+            onChange={(e) => setGranularity(e.target.value as TimelineGranularity)}
+            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
+            aria-label={t.timeline.period}
+          >
+            <option value="month">{t.timeline.perMonth}</option>
+            <option value="year">{t.timeline.perYear}</option>
+          </select>
+          <select
+            value={rollingWindow}
+            onChange={(e) => setRollingWindow(Number(e.target.value))}
+            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
+            aria-label={t.timeline.rollingAverage}
+          >
+            {ROLLING_WINDOWS.map(size => (
+              <option key={size} value={size}>{t.timeline.rollingWindow(size, granularity === 'month')}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      <div className="w-full h-80">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={timeline} margin={{ top: 5, right: 0, left: -10, bottom: 5 }}>
+            <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+            <XAxis dataKey="label" stroke="#94a3b8" minTickGap={20} />
+            <YAxis yAxisId="count" stroke="#94a3b8" allowDecimals={false} />
+            <YAxis yAxisId="rating" orientation="right" stroke="#94a3b8" domain={[1, 10]} />
+            <Tooltip content={<CustomTooltip />} cursor={{ fill: 'rgba(71, 85, 105, 0.5)' }} />
+            <Legend wrapperStyle={{ color: '#e2e8f0' }} />
+            <Bar yAxisId="count" dataKey="count" name={t.timeline.ratingCount} fill="#0ea5e9" cursor="pointer" onClick={(data) => handlePeriodClick(data.payload)} />
+            <Line yAxisId="rating" dataKey="average" name={t.timeline.average} stroke="#f59e0b" dot={false} connectNulls />
+            <Line yAxisId="rating" dataKey="rollingAverage" name={t.timeline.rollingAverage} stroke="#10b981" strokeWidth={2} dot={false} connectNulls />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6 mt-6">
+        <div className="lg:col-span-2">
+          <div className="flex items-center justify-between mb-2">
+            <h3 className="font-semibold text-slate-300">{t.timeline.activity}</h3>
+            {heatmapYear !== null && (
+              <select
+                value={heatmapYear}
+                onChange={(e) => setHeatmapYear(Number(e.target.value))}
+                className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200 text-sm"
+                aria-label={t.timeline.calendarYear}
+              >
+                {years.map(year => <option key={year} value={year}>{year}</option>)}
+              </select>
+            )}
+          </div>
+          {heatmapYear !== null && <CalendarHeatmap year={heatmapYear} counts={dailyCounts} onDayClick={handleDayClick} />}
+        </div>
+        <div>
+          <h3 className="font-semibold text-slate-300 mb-2">{t.timeline.longestStreaks}</h3>
+          <ol className="space-y-2 text-sm">
+            {streaks.map(streak => (
+              <li key={streak.start.getTime()} className="p-2 bg-slate-700/50 rounded-md">
+                <span className="font-bold text-sky-400">{t.timeline.days(streak.days)}</span>
+                <span className="block text-xs text-slate-400">{format.date(streak.start)} – {format.date(streak.end)}</span>
+              </li>
+            ))}
+          </ol>
+        </div>
+      </div>
+
+      {drillDown && (
+        <MovieDetailsModal
+          isOpen={true}
+          onClose={() => setDrillDown(null)}
+          title={drillDown.title}
+          movies={drillDown.movies}
+          onTitleSelect={onTitleSelect}
+        />
+      )}
+    </div>
+  );
+};
+
+export default RatingTimeline;
@@ -0,0 +1,56 @@
+import React from 'react';
+import { StoredDatasetInfo } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface RecentImportsProps {
+  datasets: StoredDatasetInfo[];
+  activeId: number | null;
+  onRestore: (id: number) => void;
+  onDelete: (id: number) => void;
+  disabled: boolean;
+}
+
+const RecentImports: React.FC<RecentImportsProps> = ({ datasets, activeId, onRestore, onDelete, disabled }) => {
+  const { t, format } = useI18n();
+
+  if (datasets.length === 0) {
+    return null;
+  }
+
+  return (
+    <div className="w-full max-w-2xl mx-auto mt-4 bg-slate-800 p-4 rounded-lg shadow-lg text-left">
+      <h3 className="font-semibold text-slate-300 mb-1">{t.recentImports.heading}</h3>
+      <p className="text-xs text-slate-500 mb-3">{t.recentImports.storedLocally}</p>
+      <ul className="space-y-2 max-h-60 overflow-y-auto pr-2">
+        {datasets.map(dataset => (
+          <li key={dataset.id} className="p-2 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
+            <button
+              onClick={() => onRestore(dataset.id)}
+              disabled={disabled}
+              className="flex-grow text-left disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              <span className={`font-semibold ${dataset.id === activeId ? 'text-sky-400' : 'text-slate-100 hover:text-sky-400'} transition-colors`}>
+                {dataset.fileName}
+              </span>
+              <span className="block text-xs text-slate-400">
+                {format.dateTime(new Date(dataset.importedAt))} • {t.titleCount(dataset.rowCount)}
+              </span>
+            </button>
+            <button
+              onClick={() => onDelete(dataset.id)}
+              disabled={disabled}
+              className="text-slate-400 hover:text-red-400 disabled:cursor-not-allowed disabled:opacity-50"
+              aria-label={t.recentImports.remove(dataset.fileName)}
+            >
+              <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+              </svg>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default RecentImports;
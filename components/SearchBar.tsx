@@ -1,29 +1,123 @@
-import React from 'react';
+import React, { useState, useRef, useMemo } from 'react';
+import { SearchQueryError, SearchSuggestion } from '../types';
+import { useI18n } from './I18nProvider';
 
 interface SearchBarProps {
   value: string;
   onChange: (value: string) => void;
   placeholder: string;
   disabled: boolean;
+  errors?: SearchQueryError[];
+  getSuggestions?: (value: string, caret: number) => SearchSuggestion[];
 }
 
-const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, placeholder, disabled }) => {
+const SearchBar: React.FC<SearchBarProps> = ({ value, onChange, placeholder, disabled, errors = [], getSuggestions }) => {
+  const { t } = useI18n();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [caret, setCaret] = useState<number>(value.length);
+  const [showSuggestions, setShowSuggestions] = useState(false);
+  const [activeIndex, setActiveIndex] = useState(0);
+
+  const suggestions = useMemo(
+    () => (getSuggestions && showSuggestions ? getSuggestions(value, caret) : []),
+    [getSuggestions, showSuggestions, value, caret]
+  );
+
+  const updateCaret = () => setCaret(inputRef.current?.selectionStart ?? value.length);
+
+  const applySuggestion = (suggestion: SearchSuggestion) => {
+    // Field names keep the caret right after the colon; completed values get a trailing space.
+    const insert = suggestion.replacement.endsWith(':') ? suggestion.replacement : `${suggestion.replacement} `;
+    const rest = value.slice(suggestion.end).replace(/^\s+/, '');
+    const next = value.slice(0, suggestion.start) + insert + rest;
+    const position = suggestion.start + insert.length;
+    onChange(next);
+    setCaret(position);
+    setActiveIndex(0);
+    requestAnimationFrame(() => inputRef.current?.setSelectionRange(position, position));
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return;
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev + 1) % suggestions.length);
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setActiveIndex(prev => (prev - 1 + suggestions.length) % suggestions.length);
+    } else if (e.key === 'Enter' || e.key === 'Tab') {
+      e.preventDefault();
+      applySuggestion(suggestions[Math.min(activeIndex, suggestions.length - 1)]);
+    } else if (e.key === 'Escape') {
+      setShowSuggestions(false);
+    }
+  };
+
   return (
     <div className="w-full max-w-2xl mx-auto mb-4 relative">
-      <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-        <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
-        </svg>
+      <div className="relative">
+        <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+          <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-slate-500" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+            <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M21 21l-6-6m2-5a7 7 0 11-14 0 7 7 0 0114 0z" />
+          </svg>
+        </div>
+        <input
+          ref={inputRef}
+          type="text"
+          placeholder={placeholder}
+          value={value}
+          onChange={(e) => {
+            onChange(e.target.value);
+            setCaret(e.target.selectionStart ?? e.target.value.length);
+            setShowSuggestions(true);
+            setActiveIndex(0);
+          }}
+          onKeyDown={handleKeyDown}
+          onKeyUp={updateCaret}
+          onClick={updateCaret}
+          onFocus={() => setShowSuggestions(true)}
+          onBlur={() => setShowSuggestions(false)}
+          disabled={disabled}
+          className={`w-full pl-10 pr-4 py-2 bg-slate-800 border rounded-md focus:outline-none focus:ring-2 text-slate-200 placeholder-slate-500 disabled:opacity-50 disabled:cursor-not-allowed ${errors.length > 0 ? 'border-red-700 focus:ring-red-500' : 'border-slate-600 focus:ring-sky-500'}`}
+          aria-label={t.search.label}
+          aria-invalid={errors.length > 0}
+          aria-autocomplete="list"
+          aria-expanded={suggestions.length > 0}
+          role="combobox"
+        />
       </div>
-      <input
-        type="text"
-        placeholder={placeholder}
-        value={value}
-        onChange={(e) => onChange(e.target.value)}
-        disabled={disabled}
-        className="w-full pl-10 pr-4 py-2 bg-slate-800 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200 placeholder-slate-500 disabled:opacity-50 disabled:cursor-not-allowed"
-        aria-label="Sök filmer"
-      />
+
+      {suggestions.length > 0 && (
+        <ul className="absolute z-20 left-0 right-0 mt-1 bg-slate-800 border border-slate-600 rounded-md shadow-lg overflow-hidden text-left" role="listbox">
+          {suggestions.map((suggestion, index) => (
+            <li
+              key={`${suggestion.replacement}-${index}`}
+              role="option"
+              aria-selected={index === activeIndex}
+              // mousedown fires before the input loses focus and hides the list.
+              onMouseDown={(e) => {
+                e.preventDefault();
+                applySuggestion(suggestion);
+              }}
+              onMouseEnter={() => setActiveIndex(index)}
+              className={`flex justify-between gap-4 px-3 py-2 cursor-pointer text-sm ${index === activeIndex ? 'bg-slate-700' : ''}`}
+            >
+              <span className="text-slate-200 truncate">{suggestion.label}</span>
+              <span className="text-slate-500 truncate">{suggestion.detail}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="mt-2 space-y-1 text-sm text-red-300 text-left" role="alert">
+          {errors.map(error => (
+            <li key={`${error.start}-${error.end}`}>
+              <code className="bg-red-900/50 px-1 rounded">{value.slice(error.start, error.end)}</code> {error.message}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 };
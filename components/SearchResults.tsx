@@ -1,45 +1,81 @@
 import React from 'react';
-import { IMDbEntry } from '../types';
+import { Title } from '../types';
+import Highlight from './Highlight';
+import VirtualList from './VirtualList';
+import { highlightSegments } from '../utils/searchIndex';
+import { useI18n } from './I18nProvider';
 
 interface SearchResultsProps {
-  results: IMDbEntry[];
+  results: Title[];
+  // Index words to highlight; names are only listed when one of them matched.
+  matchedTokens?: Set<string>;
+  onTitleSelect: (movie: Title) => void;
 }
 
-const SearchResults: React.FC<SearchResultsProps> = ({ results }) => {
+const EMPTY_TOKENS = new Set<string>();
+
+const matchingNames = (names: string[], tokens: Set<string>) =>
+  tokens.size === 0 ? [] : names.filter(name => highlightSegments(name, tokens).some(segment => segment.match));
+
+const movieKey = (movie: Title) => movie.id;
+
+const SearchResults: React.FC<SearchResultsProps> = ({ results, matchedTokens = EMPTY_TOKENS, onTitleSelect }) => {
+  const { t, format } = useI18n();
+
   if (results.length === 0) {
     return (
       <div className="text-center text-slate-400 mt-8 max-w-2xl mx-auto">
-        <p>Inga filmer matchade din sökning.</p>
+        <p>{t.search.noResults}</p>
       </div>
     );
   }
 
   return (
     <div className="w-full max-w-4xl mx-auto mt-4 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg">
-        <h2 className="text-2xl font-bold text-sky-400 mb-4">Sökresultat</h2>
-        <ul className="space-y-4 max-h-[60vh] overflow-y-auto pr-2">
-            {results.map(movie => (
-                <li key={movie.Const} className="p-3 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
+        <h2 className="text-2xl font-bold text-sky-400 mb-4">{t.search.results} <span className="text-base font-normal text-slate-400">({format.number(results.length)})</span></h2>
+        <VirtualList
+            items={results}
+            getKey={movieKey}
+            estimatedItemHeight={72}
+            gap={16}
+            className="max-h-[60vh] pr-2"
+            ariaLabel={t.search.results}
+            onActivate={onTitleSelect}
+            renderItem={movie => (
+                <div className="p-3 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
                     <div className="flex-grow">
-                        <a
-                            href={movie.URL}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="font-semibold text-slate-100 hover:text-sky-400 transition-colors"
+                        <button
+                            onClick={() => onTitleSelect(movie)}
+                            className="font-semibold text-slate-100 hover:text-sky-400 transition-colors text-left"
                         >
-                            {movie.Title}
-                        </a>
-                        <p className="text-sm text-slate-400">{movie.Year}</p>
+                            <Highlight text={movie.title} tokens={matchedTokens} />
+                        </button>
+                        <p className="text-sm text-slate-400">
+                            {movie.year}
+                            {movie.originalTitle && movie.originalTitle !== movie.title && (
+                                <> • <Highlight text={movie.originalTitle} tokens={matchedTokens} /></>
+                            )}
+                        </p>
+                        {matchingNames(movie.directors, matchedTokens).length > 0 && (
+                            <p className="text-xs text-slate-400 mt-1">
+                                <span className="font-semibold text-slate-300">{t.list.directedBy}</span> <Highlight text={matchingNames(movie.directors, matchedTokens).join(', ')} tokens={matchedTokens} />
+                            </p>
+                        )}
+                        {matchingNames(movie.cast, matchedTokens).length > 0 && (
+                            <p className="text-xs text-slate-400 mt-1">
+                                <span className="font-semibold text-slate-300">{t.list.cast}</span> <Highlight text={matchingNames(movie.cast, matchedTokens).join(', ')} tokens={matchedTokens} />
+                            </p>
+                        )}
                     </div>
                     <div className="flex-shrink-0 flex items-center space-x-2 text-lg font-bold text-sky-400">
                         <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-400" viewBox="0 0 20 20" fill="currentColor">
                             <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
                         </svg>
-                        <span>{movie['Your Rating']}</span>
+                        <span>{movie.yourRating}</span>
                     </div>
-                </li>
-            ))}
-        </ul>
+                </div>
+            )}
+        />
     </div>
   );
 };
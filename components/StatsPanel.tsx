@@ -0,0 +1,164 @@
+import React, { useMemo } from 'react';
+import { BarChart, Bar, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { PercentileSummary, TensPoint, Title } from '../types';
+import { buildStatsSummary, PERCENTILES } from '../utils/statistics';
+import { useI18n } from './I18nProvider';
+
+interface StatsPanelProps {
+  // The titles left after the list's filters, so the numbers follow them.
+  movies: Title[];
+  // Watchlists have no ratings of their own, and the share of 10s over time needs Date Rated.
+  showRatings: boolean;
+  showTrend: boolean;
+}
+
+const HistogramTooltip: React.FC<any> = ({ active, payload }) => {
+    const { t, format } = useI18n();
+    if (active && payload && payload.length) {
+        return (
+            <div className="p-2 bg-slate-700 border border-slate-600 rounded-md shadow-lg">
+                <p className="label text-slate-200">{t.comparison.yourRatingValue(payload[0].payload.rating)}</p>
+                <p className="intro text-sky-400">{`${t.stats.titles}: ${format.number(payload[0].value)}`}</p>
+            </div>
+        );
+    }
+    return null;
+};
+
+const TensTooltip: React.FC<any> = ({ active, payload }) => {
+    const { t, format } = useI18n();
+    if (active && payload && payload.length) {
+        const point: TensPoint = payload[0].payload;
+        return (
+            <div className="p-2 bg-slate-700 border border-slate-600 rounded-md shadow-lg">
+                <p className="label text-slate-200">{point.year}</p>
+                <p className="intro text-sky-400">{`${t.stats.tensShare}: ${format.number(point.share, 1)} %`}</p>
+                <p className="text-slate-400">{t.stats.tens(point.tens, point.rated)}</p>
+            </div>
+        );
+    }
+    return null;
+};
+
+const Figure: React.FC<{ label: string; value: string }> = ({ label, value }) => (
+  <div className="p-3 bg-slate-700/50 rounded-md">
+    <p className="text-xs uppercase tracking-wide text-slate-400">{label}</p>
+    <p className="text-2xl font-bold text-sky-400">{value}</p>
+  </div>
+);
+
+const StatsPanel: React.FC<StatsPanelProps> = ({ movies, showRatings, showTrend }) => {
+  const { t, format } = useI18n();
+  const stats = useMemo(() => buildStatsSummary(movies), [movies]);
+
+  if (movies.length === 0) {
+    return null;
+  }
+
+  // Years are written without digit grouping, as everywhere else in the app.
+  const percentileRows: [string, PercentileSummary | null, (value: number) => string][] = [
+    [t.stats.releaseYear, stats.releaseYear, value => String(Math.round(value))],
+    [t.stats.runtime, stats.runtime, value => format.number(Math.round(value))],
+  ];
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg text-left">
+      <div className="flex flex-wrap items-baseline justify-between gap-2 mb-4">
+        <h2 className="text-2xl font-bold text-sky-400">{t.stats.heading}</h2>
+        <p className="text-sm text-slate-400">{t.stats.scope(movies.length)}</p>
+      </div>
+
+      {showRatings && stats.rating && (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-6">
+            <Figure label={t.stats.ratedCount} value={format.number(stats.rating.count)} />
+            <Figure label={t.stats.mean} value={format.number(stats.rating.mean, 2)} />
+            <Figure label={t.stats.median} value={format.number(stats.rating.median, 1)} />
+            <Figure label={t.stats.standardDeviation} value={format.number(stats.rating.standardDeviation, 2)} />
+          </div>
+
+          <h3 className="font-semibold text-slate-300 mb-2">{t.stats.histogram}</h3>
+          <div className="w-full h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={stats.histogram} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+                <XAxis dataKey="rating" stroke="#94a3b8" />
+                <YAxis stroke="#94a3b8" allowDecimals={false} />
+                <Tooltip content={<HistogramTooltip />} cursor={{ fill: 'rgba(71, 85, 105, 0.5)' }} />
+                <Bar dataKey="count" name={t.stats.titles} fill="#0ea5e9" />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+        {(stats.releaseYear || stats.runtime) && (
+          <div>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.stats.percentiles}</h3>
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm">
+                <thead>
+                  <tr className="text-slate-400">
+                    <th />
+                    {PERCENTILES.map(p => <th key={p} className="px-2 py-1 font-normal text-right">{t.stats.percentile(p)}</th>)}
+                  </tr>
+                </thead>
+                <tbody>
+                  {percentileRows.filter(([, summary]) => summary !== null).map(([label, summary, formatValue]) => (
+                    <tr key={label} className="border-t border-slate-700">
+                      <th className="pr-2 py-1 text-left font-normal text-slate-300 whitespace-nowrap">
+                        {label} <span className="text-slate-500">({format.number(summary!.count)})</span>
+                      </th>
+                      {summary!.values.map((value, index) => (
+                        <td key={PERCENTILES[index]} className="px-2 py-1 text-right text-slate-200">{formatValue(value)}</td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        )}
+
+        {showRatings && stats.correlations.length > 0 && (
+          <div>
+            <h3 className="font-semibold text-slate-300 mb-2">{t.stats.correlations}</h3>
+            <ul className="space-y-2 text-sm">
+              {stats.correlations.map(correlation => (
+                <li key={correlation.field} className="p-2 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
+                  <div>
+                    <span className="text-slate-200">{t.stats.correlatedFields[correlation.field]}</span>
+                    <span className="block text-xs text-slate-400">
+                      {t.stats.correlationStrength(correlation.r)} • {t.stats.pairs(correlation.pairs)}
+                    </span>
+                  </div>
+                  <span className="font-semibold text-sky-400">r = {format.number(correlation.r, 2)}</span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+      </div>
+
+      {showRatings && showTrend && stats.tensByYearRated.length > 1 && (
+        <>
+          <h3 className="font-semibold text-slate-300 mt-6 mb-2">{t.stats.tensByYearRated}</h3>
+          <div className="w-full h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={stats.tensByYearRated} margin={{ top: 5, right: 20, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" stroke="#475569" />
+                <XAxis dataKey="year" stroke="#94a3b8" />
+                <YAxis stroke="#94a3b8" unit=" %" />
+                <Tooltip content={<TensTooltip />} />
+                <Line dataKey="share" name={t.stats.tensShare} stroke="#f59e0b" strokeWidth={2} dot={{ r: 2 }} />
+              </LineChart>
+            </ResponsiveContainer>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default StatsPanel;
@@ -0,0 +1,187 @@
+import React, { useEffect, useMemo } from 'react';
+import ReactDOM from 'react-dom';
+import { Annotations, Title, TitleAnnotation } from '../types';
+import { annotationFor, tagsInUse } from '../utils/annotations';
+import { genreLabel } from '../utils/i18n';
+import { rankTitle, ratedTitlesFromSameYear, titlesBySameDirector } from '../utils/titleDetails';
+import AnnotationEditor from './AnnotationEditor';
+import { useI18n } from './I18nProvider';
+
+interface TitleDrawerProps {
+  movie: Title | null;
+  // The whole dataset, so related titles and the rank are not narrowed by the current filters.
+  allMovies: Title[];
+  annotations: Annotations;
+  onAnnotationChange: (id: string, annotation: TitleAnnotation) => void;
+  onSelect: (movie: Title) => void;
+  onClose: () => void;
+}
+
+// Enough to browse without turning the drawer into another list.
+const RELATED_LIMIT = 20;
+
+interface RelatedListProps {
+  heading: string;
+  movies: Title[];
+  onSelect: (movie: Title) => void;
+}
+
+const RelatedList: React.FC<RelatedListProps> = ({ heading, movies, onSelect }) => {
+  const { t } = useI18n();
+  if (movies.length === 0) return null;
+  return (
+    <section className="mt-6">
+      <h3 className="font-semibold text-slate-300 mb-2">{heading} <span className="text-sm font-normal text-slate-500">({movies.length})</span></h3>
+      <ul className="space-y-1 text-sm">
+        {movies.slice(0, RELATED_LIMIT).map(movie => (
+          <li key={movie.id}>
+            <button
+              onClick={() => onSelect(movie)}
+              className="w-full flex justify-between gap-2 p-1 rounded text-left hover:bg-slate-700"
+              aria-label={t.drawer.openDetails(movie.title)}
+            >
+              <span className="text-slate-200">{movie.title} <span className="text-slate-500">{movie.year}</span></span>
+              {movie.yourRating !== null && <span className="font-semibold text-sky-400">{movie.yourRating}</span>}
+            </button>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+const TitleDrawer: React.FC<TitleDrawerProps> = ({ movie, allMovies, annotations, onAnnotationChange, onSelect, onClose }) => {
+  const { t, format } = useI18n();
+
+  const rank = useMemo(() => (movie ? rankTitle(movie, allMovies) : null), [movie, allMovies]);
+  const sameDirector = useMemo(() => (movie ? titlesBySameDirector(movie, allMovies) : []), [movie, allMovies]);
+  const sameYear = useMemo(() => (movie ? ratedTitlesFromSameYear(movie, allMovies) : []), [movie, allMovies]);
+  const knownTags = useMemo(() => tagsInUse(annotations, format.compare), [annotations, format]);
+
+  useEffect(() => {
+    if (!movie) return;
+    // Captured and stopped so a list modal underneath stays open when only the drawer should close.
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') {
+        event.stopPropagation();
+        onClose();
+      }
+    };
+    const previousOverflow = document.body.style.overflow;
+    document.addEventListener('keydown', handleKeyDown, true);
+    document.body.style.overflow = 'hidden';
+    return () => {
+      document.removeEventListener('keydown', handleKeyDown, true);
+      document.body.style.overflow = previousOverflow;
+    };
+  }, [movie, onClose]);
+
+  if (!movie) {
+    return null;
+  }
+
+  // Only the columns this title has a value for.
+  const fields: [string, string][] = [
+    [t.drawer.originalTitle, movie.originalTitle && movie.originalTitle !== movie.title ? movie.originalTitle : ''],
+    [t.drawer.titleType, t.titleTypes[movie.titleType]],
+    [t.drawer.year, movie.year !== null ? String(movie.year) : ''],
+    [t.drawer.yourRating, movie.yourRating !== null ? String(movie.yourRating) : ''],
+    [t.drawer.imdbRating, movie.imdbRating !== null ? format.number(movie.imdbRating) : ''],
+    [t.drawer.numVotes, movie.numVotes !== null ? format.number(movie.numVotes) : ''],
+    [t.drawer.runtime, movie.runtimeMinutes !== null ? t.drawer.minutes(movie.runtimeMinutes) : ''],
+    [t.drawer.releaseDate, format.date(movie.releaseDate)],
+    [t.drawer.dateRated, format.date(movie.dateRated)],
+    [t.drawer.created, format.date(movie.created)],
+    [t.drawer.position, movie.position !== null ? String(movie.position) : ''],
+    [t.drawer.genres, movie.genres.map(genre => genreLabel(t, genre)).join(', ')],
+    [t.drawer.directors, movie.directors.join(', ')],
+    [t.drawer.cast, movie.cast.join(', ')],
+    [t.drawer.sources, movie.sources.join(', ')],
+  ];
+  const otherColumns = (Object.entries(movie.metadata) as [string, string][]).filter(([, value]) => value.trim() !== '');
+
+  return ReactDOM.createPortal(
+    <div
+      className="fixed inset-0 bg-black/50 flex justify-end z-[60]"
+      onClick={onClose}
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="drawer-title"
+    >
+      <aside
+        className="w-full max-w-md h-full bg-slate-800 shadow-2xl flex flex-col"
+        onClick={e => e.stopPropagation()}
+      >
+        <header className="flex items-start justify-between gap-4 p-4 border-b border-slate-600">
+          <div>
+            <h2 id="drawer-title" className="text-2xl font-bold text-sky-400">{movie.title}</h2>
+            {movie.url && (
+              <a
+                href={movie.url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-sm text-slate-400 hover:text-sky-400 transition-colors"
+              >
+                {t.drawer.openOnImdb}
+              </a>
+            )}
+          </div>
+          <button
+            onClick={onClose}
+            className="text-slate-400 hover:text-white"
+            aria-label={t.modal.close}
+          >
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+              <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+            </svg>
+          </button>
+        </header>
+        <main className="p-4 sm:p-6 overflow-y-auto text-left">
+          {rank && (
+            <section className="mb-6 p-3 bg-sky-900/40 border border-sky-700 rounded-md">
+              <p className="text-xs uppercase tracking-wide text-sky-300 mb-1">{t.drawer.rankHeading}</p>
+              <p className="font-semibold text-lg text-slate-100">{t.drawer.rank(rank.rank, rank.total)}</p>
+              {rank.tied > 0 && <p className="text-sm text-slate-400">{t.drawer.tied(rank.tied)}</p>}
+            </section>
+          )}
+
+          <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+            {fields.filter(([, value]) => value !== '').map(([label, value]) => (
+              <React.Fragment key={label}>
+                <dt className="text-slate-400">{label}</dt>
+                <dd className="text-slate-200">{value}</dd>
+              </React.Fragment>
+            ))}
+          </dl>
+
+          <AnnotationEditor
+            key={movie.id}
+            annotation={annotationFor(annotations, movie.id)}
+            onChange={annotation => onAnnotationChange(movie.id, annotation)}
+            knownTags={knownTags}
+          />
+
+          {otherColumns.length > 0 && (
+            <section className="mt-6">
+              <h3 className="font-semibold text-slate-300 mb-2">{t.drawer.otherColumns}</h3>
+              <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-2 text-sm">
+                {otherColumns.map(([column, value]) => (
+                  <React.Fragment key={column}>
+                    <dt className="text-slate-400">{column}</dt>
+                    <dd className="text-slate-200 break-words">{value}</dd>
+                  </React.Fragment>
+                ))}
+              </dl>
+            </section>
+          )}
+
+          <RelatedList heading={t.drawer.sameDirector} movies={sameDirector} onSelect={onSelect} />
+          {movie.year !== null && <RelatedList heading={t.drawer.sameYear(movie.year)} movies={sameYear} onSelect={onSelect} />}
+        </main>
+      </aside>
+    </div>,
+    document.body
+  );
+};
+
+export default TitleDrawer;
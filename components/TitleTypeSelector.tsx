@@ -0,0 +1,56 @@
+import React from 'react';
+import { TitleType } from '../types';
+import { useI18n } from './I18nProvider';
+
+interface TitleTypeSelectorProps {
+  counts: { [type in TitleType]?: number };
+  selectedTypes: Set<TitleType>;
+  onChange: (selectedTypes: Set<TitleType>) => void;
+}
+
+const TitleTypeSelector: React.FC<TitleTypeSelectorProps> = ({ counts, selectedTypes, onChange }) => {
+  const { t, format } = useI18n();
+  const types = (Object.keys(counts) as TitleType[]).sort((a, b) => (counts[b] || 0) - (counts[a] || 0));
+
+  const handleToggle = (type: TitleType) => {
+    const newSet = new Set(selectedTypes);
+    if (newSet.has(type)) {
+      newSet.delete(type);
+    } else {
+      newSet.add(type);
+    }
+    onChange(newSet);
+  };
+
+  const allSelected = types.every(type => selectedTypes.has(type));
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 rounded-lg shadow-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+        <h3 className="font-semibold text-slate-300">{t.titleTypeSelector.heading}</h3>
+        <button
+          onClick={() => onChange(allSelected ? new Set() : new Set(types))}
+          className="text-sky-400 hover:text-sky-300 text-sm"
+        >
+          {allSelected ? t.titleTypeSelector.deselectAll : t.titleTypeSelector.selectAll}
+        </button>
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {types.map(type => (
+          <label key={type} className="flex items-center space-x-2 cursor-pointer bg-slate-700 px-3 py-1 rounded-full text-sm hover:bg-slate-600 transition-colors">
+            <input
+              type="checkbox"
+              className="form-checkbox h-4 w-4 rounded bg-slate-800 border-slate-600 text-sky-500 focus:ring-sky-500"
+              checked={selectedTypes.has(type)}
+              onChange={() => handleToggle(type)}
+            />
+            <span className="text-slate-300">{t.titleTypes[type]}</span>
+            <span className="text-slate-500">{format.number(counts[type] || 0)}</span>
+          </label>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default TitleTypeSelector;
@@ -0,0 +1,193 @@
+import React, { useState, useRef, useEffect, useLayoutEffect, useMemo, useCallback, useId } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  // Called with Enter on the keyboard-selected item.
+  onActivate?: (item: T) => void;
+  // Starting guess for unmeasured rows; real heights are measured once rendered.
+  estimatedItemHeight: number;
+  // Space between rows in pixels.
+  gap?: number;
+  // Keeps the scroll position when the list is unmounted and shown again, e.g. around a search.
+  scrollKey?: string;
+  className?: string;
+  ariaLabel: string;
+}
+
+// Extra rows rendered above and below the viewport so fast scrolling doesn't show gaps.
+const OVERSCAN = 6;
+
+const savedScrollPositions = new Map<string, number>();
+
+// Renders only the rows in view. Rows may differ in height; each is measured with a
+// ResizeObserver and the offsets are recomputed from the measured heights.
+const VirtualList = <T,>({ items, getKey, renderItem, onActivate, estimatedItemHeight, gap = 0, scrollKey, className = '', ariaLabel }: VirtualListProps<T>) => {
+  const listId = useId();
+  const containerRef = useRef<HTMLDivElement>(null);
+  const heights = useRef(new Map<string, number>());
+  const [measureVersion, setMeasureVersion] = useState(0);
+  const [scrollTop, setScrollTop] = useState(() => (scrollKey && savedScrollPositions.get(scrollKey)) || 0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [activeIndex, setActiveIndex] = useState(-1);
+
+  const offsets = useMemo(() => {
+    const result = new Array<number>(items.length + 1);
+    result[0] = 0;
+    items.forEach((item, index) => {
+      result[index + 1] = result[index] + (heights.current.get(getKey(item)) ?? estimatedItemHeight) + gap;
+    });
+    return result;
+    // measureVersion changes whenever a row reports a new height.
+  }, [items, getKey, estimatedItemHeight, gap, measureVersion]);
+
+  const totalHeight = Math.max(0, offsets[items.length] - gap);
+
+  // First row whose bottom edge is below the given position.
+  const rowAt = useCallback((position: number) => {
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (offsets[middle + 1] <= position) low = middle + 1;
+      else high = middle;
+    }
+    return Math.max(0, low);
+  }, [items.length, offsets]);
+
+  const start = Math.max(0, rowAt(scrollTop) - OVERSCAN);
+  const end = Math.min(items.length, rowAt(scrollTop + viewportHeight) + OVERSCAN + 1);
+
+  useLayoutEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    container.scrollTop = scrollTop;
+    setViewportHeight(container.clientHeight);
+    const observer = new ResizeObserver(() => setViewportHeight(container.clientHeight));
+    observer.observe(container);
+    return () => observer.disconnect();
+    // Only the initial position is restored; later scrolling drives scrollTop.
+  }, []);
+
+  // A new result set starts without a keyboard selection.
+  useEffect(() => {
+    setActiveIndex(-1);
+  }, [items]);
+
+  const rowObserver = useMemo(
+    () =>
+      new ResizeObserver(entries => {
+        let changed = false;
+        entries.forEach(entry => {
+          const key = (entry.target as HTMLElement).dataset.key!;
+          const height = (entry.target as HTMLElement).offsetHeight;
+          if (heights.current.get(key) !== height) {
+            heights.current.set(key, height);
+            changed = true;
+          }
+        });
+        if (changed) setMeasureVersion(version => version + 1);
+      }),
+    []
+  );
+
+  useEffect(() => () => rowObserver.disconnect(), [rowObserver]);
+
+  const measureRow = useCallback((element: HTMLDivElement | null) => {
+    if (!element) return;
+    rowObserver.observe(element);
+    return () => rowObserver.unobserve(element);
+  }, [rowObserver]);
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const position = e.currentTarget.scrollTop;
+    setScrollTop(position);
+    if (scrollKey) savedScrollPositions.set(scrollKey, position);
+  };
+
+  const scrollToIndex = (index: number) => {
+    const container = containerRef.current;
+    if (!container) return;
+    const top = offsets[index];
+    const bottom = offsets[index + 1] - gap;
+    if (top < container.scrollTop) container.scrollTop = top;
+    else if (bottom > container.scrollTop + container.clientHeight) container.scrollTop = bottom - container.clientHeight;
+  };
+
+  const moveTo = (index: number) => {
+    const next = Math.max(0, Math.min(items.length - 1, index));
+    setActiveIndex(next);
+    scrollToIndex(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (items.length === 0) return;
+    const pageSize = Math.max(1, end - start - 2 * OVERSCAN - 1);
+    switch (e.key) {
+      case 'ArrowDown':
+        moveTo(activeIndex + 1);
+        break;
+      case 'ArrowUp':
+        moveTo(activeIndex - 1);
+        break;
+      case 'PageDown':
+        moveTo(activeIndex + pageSize);
+        break;
+      case 'PageUp':
+        moveTo(activeIndex - pageSize);
+        break;
+      case 'Home':
+        moveTo(0);
+        break;
+      case 'End':
+        moveTo(items.length - 1);
+        break;
+      case 'Enter':
+        if (activeIndex >= 0 && onActivate) onActivate(items[activeIndex]);
+        break;
+      default:
+        return;
+    }
+    e.preventDefault();
+  };
+
+  const activeKey = activeIndex >= 0 && items[activeIndex] ? getKey(items[activeIndex]) : undefined;
+
+  return (
+    <div
+      ref={containerRef}
+      onScroll={handleScroll}
+      onKeyDown={handleKeyDown}
+      tabIndex={0}
+      role="listbox"
+      aria-label={ariaLabel}
+      aria-activedescendant={activeKey ? `${listId}-${activeKey}` : undefined}
+      className={`overflow-y-auto relative focus:outline-none focus-visible:ring-2 focus-visible:ring-sky-500 rounded-md ${className}`}
+    >
+      <div style={{ height: totalHeight, position: 'relative' }}>
+        {items.slice(start, end).map((item, offset) => {
+          const index = start + offset;
+          const key = getKey(item);
+          return (
+            <div
+              key={key}
+              id={`${listId}-${key}`}
+              data-key={key}
+              ref={measureRow}
+              role="option"
+              aria-selected={index === activeIndex}
+              onMouseDown={() => setActiveIndex(index)}
+              className={`absolute left-0 right-0 rounded-md ${index === activeIndex ? 'ring-2 ring-sky-500' : ''}`}
+              style={{ top: offsets[index] }}
+            >
+              {renderItem(item, index)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VirtualList;
@@ -0,0 +1,226 @@
+import React, { useState, useMemo, useCallback, useEffect, useRef } from 'react';
+import MovieChart from './MovieChart';
+import MovieDetailsModal from './MovieDetailsModal';
+import { ChartConfig, ChartDataPoint, Title } from '../types';
+import { createChartData, titlesInGroup } from '../utils/chartData';
+import { downloadFile } from '../utils/exportTitles';
+import { printHtml, standaloneHtml } from '../utils/standaloneHtml';
+import { buildYearInReview, yearsRated } from '../utils/yearInReview';
+import { genreLabel } from '../utils/i18n';
+import { useI18n } from './I18nProvider';
+
+interface YearInReviewProps {
+  movies: Title[];
+  onTitleSelect: (movie: Title) => void;
+}
+
+interface DrillDown {
+  title: string;
+  movies: Title[];
+}
+
+const MONTH_CHART: ChartConfig = { dimension: 'monthRated', metric: 'count', mode: 'bar' };
+
+interface StatProps {
+  label: string;
+  value: string;
+  // The same figure for the year before, with the change when it is a number.
+  previous?: string;
+  change?: string;
+}
+
+const Stat: React.FC<StatProps> = ({ label, value, previous, change }) => (
+  <div className="p-3 bg-slate-700/50 rounded-md">
+    <p className="text-xs uppercase tracking-wide text-slate-400">{label}</p>
+    <p className="text-2xl font-bold text-sky-400 truncate">{value}</p>
+    {previous !== undefined && (
+      <p className="text-xs text-slate-400 mt-1">
+        {previous}
+        {change && <span className="ml-1 font-semibold text-slate-300">{change}</span>}
+      </p>
+    )}
+  </div>
+);
+
+interface RankedListProps {
+  heading: string;
+  movies: Title[];
+  onTitleSelect: (movie: Title) => void;
+}
+
+const RankedList: React.FC<RankedListProps> = ({ heading, movies, onTitleSelect }) => (
+  <div>
+    <h3 className="font-semibold text-slate-300 mb-2">{heading}</h3>
+    <ol className="space-y-2">
+      {movies.map((movie, index) => (
+        <li key={movie.id} className="p-3 bg-slate-700/50 rounded-md flex justify-between items-center gap-4">
+          <div className="flex items-baseline gap-3">
+            <span className="text-slate-500 font-semibold w-5 text-right">{index + 1}</span>
+            <div>
+              <button
+                onClick={() => onTitleSelect(movie)}
+                className="font-semibold text-slate-100 hover:text-sky-400 transition-colors text-left"
+              >
+                {movie.title}
+              </button>
+              <p className="text-sm text-slate-400">{movie.year}</p>
+            </div>
+          </div>
+          <div className="flex-shrink-0 flex items-center space-x-2 text-lg font-bold text-sky-400">
+            <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 text-yellow-400" viewBox="0 0 20 20" fill="currentColor">
+              <path d="M9.049 2.927c.3-.921 1.603-.921 1.902 0l1.07 3.292a1 1 0 00.95.69h3.462c.969 0 1.371 1.24.588 1.81l-2.8 2.034a1 1 0 00-.364 1.118l1.07 3.292c.3.921-.755 1.688-1.54 1.118l-2.8-2.034a1 1 0 00-1.175 0l-2.8 2.034c-.784.57-1.838-.197-1.539-1.118l1.07-3.292a1 1 0 00-.364-1.118L2.98 8.72c-.783-.57-.38-1.81.588-1.81h3.461a1 1 0 00.951-.69l1.07-3.292z" />
+            </svg>
+            <span>{movie.yourRating}</span>
+          </div>
+        </li>
+      ))}
+    </ol>
+  </div>
+);
+
+const YearInReview: React.FC<YearInReviewProps> = ({ movies, onTitleSelect }) => {
+  const { t, format } = useI18n();
+  const reportRef = useRef<HTMLDivElement>(null);
+  const [drillDown, setDrillDown] = useState<DrillDown | null>(null);
+
+  const years = useMemo(() => yearsRated(movies), [movies]);
+  const [year, setYear] = useState<number | null>(null);
+
+  useEffect(() => {
+    setYear(current => (current !== null && years.includes(current) ? current : years[0] ?? null));
+  }, [years]);
+
+  const review = useMemo(() => (year !== null ? buildYearInReview(movies, year) : null), [movies, year]);
+  const monthData = useMemo(() => (review ? createChartData(review.titles, 'monthRated', 'count', t) : []), [review, t]);
+
+  const handleMonthClick = useCallback((point: ChartDataPoint) => {
+    if (!review) return;
+    setDrillDown({ title: t.timeline.ratedIn(point.label), movies: titlesInGroup(review.titles, 'monthRated', point.key) });
+  }, [review, t]);
+
+  const reportFile = () => standaloneHtml(reportRef.current!, t.yearInReview.reportTitle(year!), t.languageTag);
+
+  // A blocked pop-up still leaves the report to be saved and printed from the file.
+  const handlePrint = () => {
+    const file = reportFile();
+    if (!printHtml(file)) downloadFile(file, t.yearInReview.fileName(year!));
+  };
+
+  const handleSave = () => downloadFile(reportFile(), t.yearInReview.fileName(year!));
+
+  if (!review) {
+    return null;
+  }
+
+  const { previous } = review;
+  const hours = (minutes: number) => t.yearInReview.hours(Math.round(minutes / 60));
+  const change = (current: number, before: number, fractionDigits?: number) => {
+    const difference = current - before;
+    const rounded = fractionDigits === undefined ? difference : Number(difference.toFixed(fractionDigits));
+    return `${rounded > 0 ? '+' : rounded < 0 ? '−' : '±'}${format.number(Math.abs(rounded), fractionDigits)}`;
+  };
+  const vsPrevious = (value: string) => (previous ? `${t.yearInReview.vsPrevious(previous.year)}: ${value}` : undefined);
+
+  return (
+    <div className="w-full max-w-5xl mx-auto mt-8 bg-slate-800 p-4 sm:p-6 rounded-lg shadow-lg text-left">
+      <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+        <h2 className="text-2xl font-bold text-sky-400">{t.yearInReview.heading}</h2>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <select
+            value={review.year}
+            onChange={(e) => setYear(Number(e.target.value))}
+            className="px-2 py-1 bg-slate-700 border border-slate-600 rounded-md focus:outline-none focus:ring-2 focus:ring-sky-500 text-slate-200"
+            aria-label={t.yearInReview.year}
+          >
+            {years.map(option => <option key={option} value={option}>{option}</option>)}
+          </select>
+          {review.count > 0 && (
+            <>
+              <button onClick={handlePrint} className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md">
+                {t.yearInReview.print}
+              </button>
+              <button
+                onClick={handleSave}
+                className="px-3 py-1 bg-slate-700 hover:bg-slate-600 text-slate-200 rounded-md"
+                title={t.yearInReview.saveHtmlHint}
+              >
+                {t.yearInReview.saveHtml}
+              </button>
+            </>
+          )}
+        </div>
+      </div>
+
+      {review.count === 0 ? (
+        <p className="text-slate-400">{t.yearInReview.empty(review.year)}</p>
+      ) : (
+        <div ref={reportRef} className="w-full max-w-5xl mx-auto bg-slate-800 text-slate-200 text-left">
+          <h3 className="text-3xl font-bold text-slate-100 mb-4">{t.yearInReview.reportTitle(review.year)}</h3>
+
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
+            <Stat
+              label={t.yearInReview.titlesRated}
+              value={format.number(review.count)}
+              previous={previous ? vsPrevious(format.number(previous.count)) : undefined}
+              change={previous ? change(review.count, previous.count) : undefined}
+            />
+            <Stat
+              label={t.yearInReview.averageRating}
+              value={format.number(review.average!, 2)}
+              previous={previous ? vsPrevious(format.number(previous.average!, 2)) : undefined}
+              change={previous ? change(review.average!, previous.average!, 2) : undefined}
+            />
+            {(review.totalRuntime > 0 || (previous && previous.totalRuntime > 0)) && (
+              <Stat
+                label={t.yearInReview.totalRuntime}
+                value={hours(review.totalRuntime)}
+                previous={previous ? vsPrevious(hours(previous.totalRuntime)) : undefined}
+                change={previous ? change(Math.round(review.totalRuntime / 60), Math.round(previous.totalRuntime / 60)) : undefined}
+              />
+            )}
+            {review.topGenre && (
+              <Stat
+                label={t.yearInReview.topGenre}
+                value={genreLabel(t, review.topGenre.name)}
+                previous={previous?.topGenre ? vsPrevious(genreLabel(t, previous.topGenre.name)) : undefined}
+              />
+            )}
+            {review.topDirector && (
+              <Stat
+                label={t.yearInReview.topDirector}
+                value={review.topDirector.name}
+                previous={previous?.topDirector ? vsPrevious(previous.topDirector.name) : undefined}
+              />
+            )}
+            {review.oldest && (
+              <Stat label={t.yearInReview.oldest} value={`${review.oldest.title} (${review.oldest.year})`} />
+            )}
+          </div>
+          {!previous && <p className="text-sm text-slate-500 mt-2">{t.yearInReview.noPrevious(review.year - 1)}</p>}
+
+          <h3 className="font-semibold text-slate-300 mt-6">{t.yearInReview.byMonth}</h3>
+          <MovieChart data={monthData} config={MONTH_CHART} onBarClick={handleMonthClick} />
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 mt-6">
+            <RankedList heading={t.yearInReview.topTen} movies={review.top} onTitleSelect={onTitleSelect} />
+            {review.bottom.length > 0 && (
+              <RankedList heading={t.yearInReview.bottomFive} movies={review.bottom} onTitleSelect={onTitleSelect} />
+            )}
+          </div>
+        </div>
+      )}
+
+      {drillDown && (
+        <MovieDetailsModal
+          isOpen={true}
+          onClose={() => setDrillDown(null)}
+          title={drillDown.title}
+          movies={drillDown.movies}
+          onTitleSelect={onTitleSelect}
+        />
+      )}
+    </div>
+  );
+};
+
+export default YearInReview;
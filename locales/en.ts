@@ -0,0 +1,438 @@
+import type { Messages } from './sv';
+import { MAX_YEAR, MIN_YEAR } from '../utils/importReport';
+
+const count = (value: number) => value.toLocaleString('en-GB');
+const plural = (value: number, one: string, many: string) => `${count(value)} ${value === 1 ? one : many}`;
+
+const en: Messages = {
+  languageTag: 'en-GB',
+  languageName: 'English',
+  dateFormat: { dateStyle: 'medium' },
+
+  titleTypes: {
+    movie: 'Movie',
+    tvSeries: 'TV series',
+    tvMiniSeries: 'Mini series',
+    tvEpisode: 'TV episode',
+    tvMovie: 'TV movie',
+    tvSpecial: 'TV special',
+    short: 'Short',
+    video: 'Video',
+    videoGame: 'Video game',
+    musicVideo: 'Music video',
+    podcastSeries: 'Podcast series',
+    podcastEpisode: 'Podcast episode',
+    other: 'Other',
+  },
+
+  // IMDb's own genre names are already English.
+  genres: {},
+
+  decade: (start: string) => `${start}s`,
+  titleCount: (value: number) => plural(value, 'title', 'titles'),
+
+  app: {
+    heading: 'IMDb Film Statistics',
+    documentTitle: 'IMDb Film Statistics Visualizer',
+    intro: 'Upload your IMDb ratings file (CSV), or an export from Letterboxd, Trakt or Criticker, to see your films visualized by year.',
+    language: 'Language',
+    searchPlaceholder: 'Search, e.g. director:bergman year:1950..1970 rating:>=8 -genre:comedy "wild strawberries"',
+    conflictRule: 'When merged files rate a title differently:',
+    processing: (percent: number) => `Processing file... ${percent}%`,
+    errorPrefix: 'Error: ',
+    mergeConflicts: (conflicts: number, rule: string) =>
+      `${plural(conflicts, 'title was', 'titles were')} rated differently in the merged files and resolved with the rule "${rule}".`,
+    emptyState: 'The chart will appear here once a valid CSV file has been uploaded and processed.',
+    emptyStateHint: 'The expected format is a CSV file exported from IMDb with the columns "Year" and "Title Type". Click a bar to see the films from that year.',
+  },
+
+  errors: {
+    wrongFileType: 'Wrong file type. Please upload a CSV, JSON or XML file.',
+    emptyFile: 'The file is empty or has an invalid format.',
+    missingColumns: (columns: string) =>
+      `The CSV file is missing columns required for basic functionality: ${columns}. Make sure they are included in your IMDb export.`,
+    fileMissingColumns: (fileName: string, columns: string) => `${fileName} is missing required columns: ${columns}.`,
+    noValidTitles: 'Could not find any titles with a valid year in the file.',
+    processingFailed: 'Something went wrong while processing the file.',
+    datasetNotFound: 'The saved import could not be found.',
+    datasetReadFailed: 'The saved import could not be read.',
+    invalidTraktJson: 'The Trakt file is not valid JSON.',
+    traktNotAList: 'The Trakt file does not contain a list of titles.',
+    invalidCritickerXml: 'The Criticker file is not valid XML.',
+  },
+
+  conflictRules: {
+    newest: 'Most recently rated wins',
+    highest: 'Highest rating wins',
+    lowest: 'Lowest rating wins',
+    first_file: 'First file wins',
+    last_file: 'Last file wins',
+  },
+
+  fileUpload: {
+    dropOne: 'Drag and drop a file here, or click to choose',
+    dropMany: 'Drag and drop one or more files here, or click to choose',
+    browse: 'browse',
+  },
+
+  recentImports: {
+    heading: 'Previous imports',
+    storedLocally: 'Stored only locally in your browser.',
+    remove: (fileName: string) => `Remove ${fileName}`,
+  },
+
+  importReport: {
+    heading: (fileName: string) => `Import report for ${fileName}`,
+    format: (label: string) => `Format: ${label}`,
+    listExport: 'Watchlist or custom list',
+    ratingsExport: 'Ratings export',
+    totalRows: 'Rows in the file',
+    parsedRows: 'Parsed rows',
+    skippedRows: 'Skipped rows',
+    mergedRows: 'Merged rewatches',
+    titleTypes: 'Title types',
+    importedRows: 'Imported titles',
+    missingRequired: 'Missing required columns:',
+    missingOptional: 'Missing optional columns:',
+    missingOptionalHint: 'Filters and sorts that rely on them are hidden.',
+    byTitleType: 'Imported titles by title type',
+    skippedHeading: (rows: number) => `Skipped rows (${count(rows)})`,
+    warningsHeading: (warnings: number) => `Warnings (${count(warnings)})`,
+    line: (line: number) => `Line ${line}:`,
+    rowProblem: row => {
+      switch (row.reason) {
+        case 'missing_year':
+          return row.title !== undefined ? `"${row.title}" has no valid year.` : 'The row has no valid year.';
+        case 'year_out_of_range':
+          return row.title !== undefined
+            ? `"${row.title}" has the year ${row.year}, outside ${MIN_YEAR}–${MAX_YEAR}.`
+            : `The year is outside ${MIN_YEAR}–${MAX_YEAR}.`;
+        case 'column_mismatch':
+          return row.fieldCount !== undefined ? `Wrong number of columns: ${row.fieldCount}, expected ${row.expectedFieldCount}.` : 'Wrong number of columns.';
+        case 'unterminated_quote':
+          return 'A quoted field is never closed; the rest of the file from this line could not be read.';
+        case 'stray_quote':
+        default:
+          return 'Quotes outside a quoted field were read as plain text.';
+      }
+    },
+  },
+
+  titleTypeSelector: {
+    heading: 'Title types',
+    selectAll: 'Select all',
+    deselectAll: 'Deselect all',
+  },
+
+  chart: {
+    dimensions: {
+      year: 'Year',
+      decade: 'Decade',
+      genre: 'Genre',
+      director: 'Director',
+      rating: 'Your rating',
+      runtime: 'Runtime',
+      titleType: 'Title type',
+      monthRated: 'Month rated',
+    },
+    metrics: {
+      count: 'Number of titles',
+      averageRating: 'Average of your rating',
+      averageImdbRating: 'Average IMDb rating',
+      totalRuntime: 'Total runtime (min)',
+    },
+    modes: {
+      bar: 'Bars',
+      line: 'Line',
+      stacked: 'Stacked by title type',
+    },
+    groupBy: 'Group by',
+    metric: 'Measure',
+    display: 'Display',
+    titleCount: (titles: number) => `Titles: ${count(titles)}`,
+    runtimeBucket: (start: number, end: number) => `${start}–${end} min`,
+  },
+
+  timeline: {
+    heading: 'Ratings over time',
+    period: 'Period',
+    perMonth: 'Per month',
+    perYear: 'Per year',
+    rollingAverage: 'Rolling average',
+    rollingWindow: (size: number, monthly: boolean) => `Rolling average: ${size} ${monthly ? 'mo' : (size === 1 ? 'yr' : 'yrs')}`,
+    ratingCount: 'Ratings',
+    average: 'Average rating',
+    activity: 'Rating activity',
+    calendarYear: 'Calendar year',
+    longestStreaks: 'Longest streaks',
+    days: (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`,
+    ratedIn: (period: string) => `Rated ${period}`,
+    weekdays: ['Mon', '', 'Wed', '', 'Fri', '', ''],
+    ratingsOnDay: (day: string, ratings: number) => `${day}: ${plural(ratings, 'rating', 'ratings')}`,
+  },
+
+  yearInReview: {
+    heading: 'Year in review',
+    year: 'Year',
+    print: 'Print',
+    saveHtml: 'Save as HTML',
+    saveHtmlHint: 'Download the report as a standalone HTML file',
+    reportTitle: (year: number) => `Your ${year} in film`,
+    fileName: (year: number) => `year-in-film-${year}`,
+    titlesRated: 'Titles rated',
+    averageRating: 'Average rating',
+    totalRuntime: 'Total runtime',
+    hours: (hours: number) => `${count(hours)} h`,
+    topGenre: 'Most watched genre',
+    topDirector: 'Most watched director',
+    oldest: 'Oldest film',
+    byMonth: 'Ratings by month',
+    topTen: 'Top 10 of the year',
+    bottomFive: 'Bottom 5 of the year',
+    vsPrevious: (year: number) => `Compared with ${year}`,
+    noPrevious: (year: number) => `No ratings from ${year} to compare with.`,
+    empty: (year: number) => `No ratings from ${year}.`,
+  },
+
+  comparison: {
+    heading: 'Your rating vs IMDb',
+    comparedTitles: 'Titles compared',
+    averageDeviation: 'Average deviation',
+    obscurityScore: 'Obscurity score (0–100)',
+    imdbRating: 'IMDb rating',
+    yourRating: 'Your rating',
+    yourRatingValue: (rating: number) => `Your rating: ${rating}`,
+    youVersusImdb: (yours: number, imdb: string) => `You: ${yours} • IMDb: ${imdb}`,
+    byGenre: 'Deviation by genre',
+    byDecade: 'Deviation by decade',
+    overrated: 'Overrated, according to you',
+    underrated: 'Underrated, according to you',
+    noTitles: 'No titles.',
+    mostObscure: 'Your most obscure titles',
+    votes: (votes: number) => plural(votes, 'vote', 'votes'),
+  },
+
+  stats: {
+    heading: 'Statistics',
+    scope: (titles: number) => `Across ${plural(titles, 'title', 'titles')} with the current filters`,
+    histogram: 'Distribution of your ratings',
+    titles: 'Titles',
+    ratedCount: 'Rated',
+    mean: 'Mean',
+    median: 'Median',
+    standardDeviation: 'Standard deviation',
+    percentiles: 'Percentiles',
+    percentile: (p: number) => `P${p}`,
+    releaseYear: 'Release year',
+    runtime: 'Runtime (min)',
+    correlations: 'Correlation with your rating',
+    correlatedFields: {
+      year: 'Release year',
+      runtime: 'Runtime',
+      imdbRating: 'IMDb rating',
+    },
+    correlationStrength: (r: number) => {
+      const size = Math.abs(r);
+      if (size < 0.1) return 'No correlation';
+      const direction = r > 0 ? 'positive' : 'negative';
+      return `${size < 0.3 ? 'Weak' : size < 0.5 ? 'Moderate' : 'Strong'} ${direction} correlation`;
+    },
+    pairs: (pairs: number) => plural(pairs, 'title', 'titles'),
+    tensByYearRated: 'Share of 10s by year rated',
+    tensShare: 'Share of 10s',
+    tens: (tens: number, rated: number) => `${count(tens)} of ${plural(rated, 'rating', 'ratings')}`,
+  },
+
+  genreDashboard: {
+    heading: 'Genres',
+    genreCount: 'Number of genres',
+    topGenres: (genres: number) => `${genres} most common genres`,
+    shareByDecade: 'Share by decade',
+    shareByYearRated: 'Share of what you rated each year',
+    averageByGenre: 'Average rating by genre',
+    cooccurrence: 'Genres that occur together',
+  },
+
+  people: {
+    heading: 'People',
+    roles: {
+      director: 'Directors',
+      cast: 'Cast',
+    },
+    sorts: {
+      count: 'Number of titles',
+      averageRating: 'Average rating',
+      name: 'Name',
+      lastYear: 'Last active',
+    },
+    sortBy: 'Sort by',
+    atLeast: 'At least',
+    titles: 'titles',
+    peopleCount: (people: number) => plural(people, 'person', 'people'),
+    name: 'Name',
+    titleCount: 'Titles',
+    average: 'Average',
+    best: 'Best',
+    worst: 'Worst',
+    active: 'Active',
+    showTitles: "Show this person's titles in the list",
+    noneWithThatMany: 'Nobody has that many titles. Lower the limit to see more.',
+    showMore: 'Show more',
+  },
+
+  list: {
+    ratingsHeading: 'All Rated Films',
+    watchlistHeading: 'Watchlist',
+    filterGenre: 'Filter by genre',
+    showFewerGenres: 'Show fewer',
+    showAllGenres: (genres: number) => `Show all ${genres} genres`,
+    filterYear: 'Filter by year',
+    filterRating: 'Filter by rating',
+    filterDirector: 'Filter director',
+    directorPlaceholder: 'Search director...',
+    filterCast: 'Filter cast',
+    castPlaceholder: 'Search cast...',
+    filterSource: 'Filter by source',
+    sortBy: 'Sort by',
+    sortLabel: 'Sort films',
+    matching: (titles: number) => `${plural(titles, 'film matches', 'films match')} your filter.`,
+    clearFilters: 'Clear filters',
+    exportFormat: 'Export format',
+    export: 'Export',
+    exportHint: 'Download the films in the list with the current filters and sort order',
+    randomPick: 'Pick a random film',
+    tonightsPick: "Tonight's film",
+    listLabel: 'Films',
+    directedBy: 'Director:',
+    cast: 'Cast:',
+    rated: (date: string) => `Rated: ${date}`,
+    added: (date: string) => `Added: ${date}`,
+    imdbRating: (rating: string) => `IMDb rating ${rating}`,
+    source: (sources: string) => `Source: ${sources}`,
+    noMatches: 'No films matched your filter.',
+    filterTags: 'Filter by your tags',
+    person: (role, name) => (role === 'director' ? `Directed by ${name}` : `Starring ${name}`),
+    clearPerson: (name: string) => `Remove the filter on ${name}`,
+  },
+
+  annotations: {
+    heading: 'Your notes',
+    storedLocally: 'Stored only locally in your browser, and kept when you import a newer file.',
+    flags: {
+      favourite: 'Favourite',
+      rewatch: 'Rewatch',
+    },
+    tags: 'Tags',
+    addTag: 'Add tags, separated by commas',
+    removeTag: (tag: string) => `Remove the tag ${tag}`,
+    note: 'Note',
+  },
+
+  sorts: {
+    rating_desc: 'Rating (descending)',
+    rating_asc: 'Rating (ascending)',
+    imdb_rating_desc: 'IMDb rating (descending)',
+    imdb_rating_asc: 'IMDb rating (ascending)',
+    title_asc: 'Title (A-Z)',
+    title_desc: 'Title (Z-A)',
+    original_title_asc: 'Original title (A-Z)',
+    original_title_desc: 'Original title (Z-A)',
+    year_desc: 'Year (newest first)',
+    year_asc: 'Year (oldest first)',
+    rated_date_desc: 'Date rated (newest first)',
+    rated_date_asc: 'Date rated (oldest first)',
+    runtime_asc: 'Runtime (shortest first)',
+    runtime_desc: 'Runtime (longest first)',
+    created_desc: 'Added (newest first)',
+    created_asc: 'Added (oldest first)',
+    tags_asc: 'Tags (A-Z)',
+    favourites_first: 'Favourites first',
+    rewatch_first: 'Rewatch first',
+  },
+
+  exportFormats: {
+    csv: 'CSV (IMDb format)',
+    json: 'JSON',
+    letterboxd: 'Letterboxd import (CSV)',
+  },
+
+  exportFileNames: {
+    ratings: 'ratings',
+    list: 'watchlist',
+    letterboxd: 'letterboxd',
+  },
+
+  search: {
+    label: 'Search films',
+    fields: {
+      title: 'Title or original title',
+      director: 'Director',
+      cast: 'Cast',
+      genre: 'Genre',
+      type: 'Title type, e.g. movie or tvSeries',
+      year: 'Year, e.g. 1994 or 1950..1970',
+      rating: 'Your rating, e.g. >=8',
+      imdb: 'IMDb rating, e.g. >7.5',
+      runtime: 'Runtime in minutes, e.g. <90',
+    },
+    unterminatedQuote: 'The quote is never closed.',
+    unknownField: (field: string, fields: string) => `Unknown field "${field}". Valid fields: ${fields}.`,
+    missingValue: (field: string) => `The field "${field}" has no value.`,
+    rangeWithoutBounds: 'The range has no bounds.',
+    invalidRange: (value: string) => `"${value}" is not a valid range.`,
+    reversedRange: 'The start of the range is greater than its end.',
+    invalidNumber: (value: string) => `"${value}" is not a valid number.`,
+    integerRequired: (field: string) => `The field "${field}" requires whole numbers.`,
+    outOfBounds: (field: string, min: number, max: number) => `The field "${field}" must be between ${min} and ${max}.`,
+    results: 'Search results',
+    noResults: 'No films matched your search.',
+  },
+
+  modal: {
+    close: 'Close',
+    searchPlaceholder: 'Search title, director or cast...',
+    searchLabel: 'Search the films',
+  },
+
+  drawer: {
+    openDetails: (title: string) => `Show details for ${title}`,
+    openOnImdb: 'Open on IMDb',
+    originalTitle: 'Original title',
+    titleType: 'Title type',
+    year: 'Year',
+    yourRating: 'Your rating',
+    imdbRating: 'IMDb rating',
+    numVotes: 'Votes',
+    runtime: 'Runtime',
+    minutes: (minutes: number) => `${minutes} min`,
+    releaseDate: 'Release date',
+    dateRated: 'Date rated',
+    created: 'Added',
+    position: 'Position in list',
+    genres: 'Genres',
+    directors: 'Director',
+    cast: 'Cast',
+    sources: 'Source',
+    otherColumns: 'Other columns',
+    rankHeading: 'Rank among your ratings',
+    rank: (rank: number, total: number) => `#${count(rank)} of ${count(total)}`,
+    tied: (others: number) =>
+      others === 1 ? 'Shared with one other title with the same rating' : `Shared with ${count(others)} other titles with the same rating`,
+    sameDirector: 'More by the same director',
+    sameYear: (year: number) => `Other titles from ${year} you rated`,
+  },
+
+  diff: {
+    heading: 'Compare exports',
+    intro: 'Upload an older export to see what has changed since then. Titles are matched on their IMDb id (Const).',
+    older: 'Older export',
+    newer: 'Newer export',
+    averageRating: 'Average rating:',
+    added: 'New ratings',
+    removed: 'Removed',
+    rerated: 'Changed ratings',
+    noChanges: 'No changes in this category.',
+  },
+};
+
+export default en;
@@ -0,0 +1,479 @@
+import {
+  ChartDimension,
+  ChartMetric,
+  ChartMode,
+  ConflictRule,
+  ExportFormat,
+  PeopleSort,
+  PersonRole,
+  SearchField,
+  SkippedRow,
+  SortOption,
+  TitleType,
+} from '../types';
+import { MAX_YEAR, MIN_YEAR } from '../utils/importReport';
+
+const count = (value: number) => value.toLocaleString('sv-SE');
+
+const sv = {
+  languageTag: 'sv-SE',
+  languageName: 'Svenska',
+  // Swedish dates are written YYYY-MM-DD, which is what the locale gives without options.
+  dateFormat: {} as Intl.DateTimeFormatOptions,
+
+  titleTypes: {
+    movie: 'Film',
+    tvSeries: 'TV-serie',
+    tvMiniSeries: 'Miniserie',
+    tvEpisode: 'TV-avsnitt',
+    tvMovie: 'TV-film',
+    tvSpecial: 'TV-special',
+    short: 'Kortfilm',
+    video: 'Video',
+    videoGame: 'TV-spel',
+    musicVideo: 'Musikvideo',
+    podcastSeries: 'Poddserie',
+    podcastEpisode: 'Poddavsnitt',
+    other: 'Övrigt',
+  } as { [type in TitleType]: string },
+
+  // Keyed by IMDb's English genre names; genres missing here are shown as IMDb names them.
+  genres: {
+    'Action': 'Action',
+    'Adventure': 'Äventyr',
+    'Animation': 'Animerat',
+    'Biography': 'Biografi',
+    'Comedy': 'Komedi',
+    'Crime': 'Kriminal',
+    'Documentary': 'Dokumentär',
+    'Drama': 'Drama',
+    'Family': 'Familj',
+    'Fantasy': 'Fantasy',
+    'Film-Noir': 'Film-Noir',
+    'History': 'Historia',
+    'Horror': 'Skräck',
+    'Music': 'Musik',
+    'Musical': 'Musikal',
+    'Mystery': 'Mysterium',
+    'Romance': 'Romantik',
+    'Sci-Fi': 'Sci-Fi',
+    'Short': 'Kortfilm',
+    'Sport': 'Sport',
+    'Thriller': 'Thriller',
+    'War': 'Krig',
+    'Western': 'Västern',
+  } as { [genre: string]: string },
+
+  decade: (start: string) => `${start}-talet`,
+  titleCount: (value: number) => `${count(value)} titlar`,
+
+  app: {
+    heading: 'IMDb Filmstatistik',
+    documentTitle: 'IMDb Filmstatistik Visualiserare',
+    intro: 'Ladda upp din IMDb-betygsfil (CSV), eller en export från Letterboxd, Trakt eller Criticker, för att se en visualisering av filmer per år.',
+    language: 'Språk',
+    searchPlaceholder: 'Sök, t.ex. director:bergman year:1950..1970 rating:>=8 -genre:comedy "smultronstället"',
+    conflictRule: 'Vid olika betyg i sammanslagna filer:',
+    processing: (percent: number) => `Bearbetar fil... ${percent}%`,
+    errorPrefix: 'Fel: ',
+    mergeConflicts: (conflicts: number, rule: string) =>
+      `${count(conflicts)} titlar hade olika betyg i de sammanslagna filerna och löstes med regeln "${rule}".`,
+    emptyState: 'Diagrammet kommer att visas här när en giltig CSV-fil har laddats upp och bearbetats.',
+    emptyStateHint: 'Förväntat format är en CSV-fil exporterad från IMDb med kolumnerna "Year" och "Title Type". Klicka på en stapel för att se filmer från det året.',
+  },
+
+  errors: {
+    wrongFileType: 'Felaktig filtyp. Vänligen ladda upp en CSV-, JSON- eller XML-fil.',
+    emptyFile: 'Filen är tom eller har ett ogiltigt format.',
+    missingColumns: (columns: string) =>
+      `CSV-filen saknar nödvändiga kolumner för grundfunktionalitet: ${columns}. Se till att dessa är med i din IMDb-export.`,
+    fileMissingColumns: (fileName: string, columns: string) => `${fileName} saknar nödvändiga kolumner: ${columns}.`,
+    noValidTitles: 'Kunde inte hitta några titlar med giltigt årtal i den angivna filen.',
+    processingFailed: 'Ett fel uppstod vid bearbetning av filen.',
+    datasetNotFound: 'Den sparade importen kunde inte hittas.',
+    datasetReadFailed: 'Det gick inte att läsa den sparade importen.',
+    invalidTraktJson: 'Trakt-filen är inte giltig JSON.',
+    traktNotAList: 'Trakt-filen innehåller ingen lista med titlar.',
+    invalidCritickerXml: 'Criticker-filen är inte giltig XML.',
+  },
+
+  conflictRules: {
+    newest: 'Senast betygsatt vinner',
+    highest: 'Högsta betyget vinner',
+    lowest: 'Lägsta betyget vinner',
+    first_file: 'Första filen vinner',
+    last_file: 'Sista filen vinner',
+  } as { [rule in ConflictRule]: string },
+
+  fileUpload: {
+    dropOne: 'Dra och släpp en fil hit, eller klicka för att välja',
+    dropMany: 'Dra och släpp en eller flera filer hit, eller klicka för att välja',
+    browse: 'bläddra',
+  },
+
+  recentImports: {
+    heading: 'Tidigare importer',
+    storedLocally: 'Sparas endast lokalt i din webbläsare.',
+    remove: (fileName: string) => `Ta bort ${fileName}`,
+  },
+
+  importReport: {
+    heading: (fileName: string) => `Importrapport för ${fileName}`,
+    format: (label: string) => `Format: ${label}`,
+    listExport: 'Bevakningslista eller egen lista',
+    ratingsExport: 'Betygsexport',
+    totalRows: 'Rader i filen',
+    parsedRows: 'Tolkade rader',
+    skippedRows: 'Överhoppade rader',
+    mergedRows: 'Sammanslagna omtittar',
+    titleTypes: 'Titeltyper',
+    importedRows: 'Importerade titlar',
+    missingRequired: 'Saknade obligatoriska kolumner:',
+    missingOptional: 'Saknade valfria kolumner:',
+    missingOptionalHint: 'Filter och sortering som bygger på dem döljs.',
+    byTitleType: 'Importerade titlar per titeltyp',
+    skippedHeading: (rows: number) => `Överhoppade rader (${count(rows)})`,
+    warningsHeading: (warnings: number) => `Varningar (${count(warnings)})`,
+    line: (line: number) => `Rad ${line}:`,
+    // Also used for warnings, whose code takes the place of the reason.
+    rowProblem: (row: SkippedRow): string => {
+      switch (row.reason) {
+        case 'missing_year':
+          return row.title !== undefined ? `"${row.title}" saknar giltigt årtal.` : 'Raden saknar giltigt årtal.';
+        case 'year_out_of_range':
+          return row.title !== undefined
+            ? `"${row.title}" har årtalet ${row.year}, utanför ${MIN_YEAR}–${MAX_YEAR}.`
+            : `Årtalet ligger utanför ${MIN_YEAR}–${MAX_YEAR}.`;
+        case 'column_mismatch':
+          return row.fieldCount !== undefined ? `Fel antal kolumner: ${row.fieldCount}, förväntade ${row.expectedFieldCount}.` : 'Fel antal kolumner.';
+        case 'unterminated_quote':
+          return 'Ett citerat fält avslutas aldrig; resten av filen från denna rad kunde inte läsas.';
+        case 'stray_quote':
+        default:
+          return 'Citattecken utanför ett citerat fält tolkades som vanlig text.';
+      }
+    },
+  },
+
+  titleTypeSelector: {
+    heading: 'Titeltyper',
+    selectAll: 'Markera alla',
+    deselectAll: 'Avmarkera alla',
+  },
+
+  chart: {
+    dimensions: {
+      year: 'Årtal',
+      decade: 'Decennium',
+      genre: 'Genre',
+      director: 'Regissör',
+      rating: 'Ditt betyg',
+      runtime: 'Längd',
+      titleType: 'Titeltyp',
+      monthRated: 'Månad betygsatt',
+    } as { [dimension in ChartDimension]: string },
+    metrics: {
+      count: 'Antal titlar',
+      averageRating: 'Snitt av ditt betyg',
+      averageImdbRating: 'Snitt av IMDb-betyg',
+      totalRuntime: 'Total speltid (min)',
+    } as { [metric in ChartMetric]: string },
+    modes: {
+      bar: 'Staplar',
+      line: 'Linje',
+      stacked: 'Staplat per titeltyp',
+    } as { [mode in ChartMode]: string },
+    groupBy: 'Gruppera efter',
+    metric: 'Mått',
+    display: 'Visning',
+    titleCount: (titles: number) => `Antal titlar: ${count(titles)}`,
+    runtimeBucket: (start: number, end: number) => `${start}–${end} min`,
+  },
+
+  timeline: {
+    heading: 'Betyg över tid',
+    period: 'Period',
+    perMonth: 'Per månad',
+    perYear: 'Per år',
+    rollingAverage: 'Rullande snitt',
+    rollingWindow: (size: number, monthly: boolean) => `Rullande snitt: ${size} ${monthly ? 'mån' : 'år'}`,
+    ratingCount: 'Antal betyg',
+    average: 'Snittbetyg',
+    activity: 'Betygsaktivitet',
+    calendarYear: 'År för kalendern',
+    longestStreaks: 'Längsta sviter',
+    days: (days: number) => `${days} ${days === 1 ? 'dag' : 'dagar'}`,
+    ratedIn: (period: string) => `Betygsatt ${period}`,
+    // Monday first; only every other day is labelled to save space.
+    weekdays: ['mån', '', 'ons', '', 'fre', '', ''],
+    ratingsOnDay: (day: string, ratings: number) => `${day}: ${count(ratings)} betyg`,
+  },
+
+  yearInReview: {
+    heading: 'Året som gått',
+    year: 'År',
+    print: 'Skriv ut',
+    saveHtml: 'Spara som HTML',
+    saveHtmlHint: 'Ladda ner rapporten som en fristående HTML-fil',
+    reportTitle: (year: number) => `Ditt filmår ${year}`,
+    fileName: (year: number) => `filmaret-${year}`,
+    titlesRated: 'Betygsatta titlar',
+    averageRating: 'Snittbetyg',
+    totalRuntime: 'Total speltid',
+    hours: (hours: number) => `${count(hours)} h`,
+    topGenre: 'Mest sedda genre',
+    topDirector: 'Mest sedda regissör',
+    oldest: 'Äldsta filmen',
+    byMonth: 'Betyg per månad',
+    topTen: 'Årets topp 10',
+    bottomFive: 'Årets botten 5',
+    vsPrevious: (year: number) => `Jämfört med ${year}`,
+    noPrevious: (year: number) => `Inga betyg från ${year} att jämföra med.`,
+    empty: (year: number) => `Inga betyg från ${year}.`,
+  },
+
+  comparison: {
+    heading: 'Ditt betyg mot IMDb',
+    comparedTitles: 'Jämförda titlar',
+    averageDeviation: 'Genomsnittlig avvikelse',
+    obscurityScore: 'Obskyritetspoäng (0–100)',
+    imdbRating: 'IMDb-betyg',
+    yourRating: 'Ditt betyg',
+    yourRatingValue: (rating: number) => `Ditt betyg: ${rating}`,
+    youVersusImdb: (yours: number, imdb: string) => `Du: ${yours} • IMDb: ${imdb}`,
+    byGenre: 'Avvikelse per genre',
+    byDecade: 'Avvikelse per decennium',
+    overrated: 'Överskattade enligt dig',
+    underrated: 'Underskattade enligt dig',
+    noTitles: 'Inga titlar.',
+    mostObscure: 'Dina mest obskyra titlar',
+    votes: (votes: number) => `${count(votes)} röster`,
+  },
+
+  stats: {
+    heading: 'Statistik',
+    scope: (titles: number) => `Över ${count(titles)} titlar med aktuella filter`,
+    histogram: 'Fördelning av dina betyg',
+    titles: 'Titlar',
+    ratedCount: 'Betygsatta',
+    mean: 'Medelvärde',
+    median: 'Median',
+    standardDeviation: 'Standardavvikelse',
+    percentiles: 'Percentiler',
+    percentile: (p: number) => `P${p}`,
+    releaseYear: 'Utgivningsår',
+    runtime: 'Längd (min)',
+    correlations: 'Samband med ditt betyg',
+    correlatedFields: {
+      year: 'Utgivningsår',
+      runtime: 'Längd',
+      imdbRating: 'IMDb-betyg',
+    },
+    correlationStrength: (r: number) => {
+      const size = Math.abs(r);
+      if (size < 0.1) return 'Inget samband';
+      const direction = r > 0 ? 'positivt' : 'negativt';
+      return `${size < 0.3 ? 'Svagt' : size < 0.5 ? 'Måttligt' : 'Starkt'} ${direction} samband`;
+    },
+    pairs: (pairs: number) => `${count(pairs)} titlar`,
+    tensByYearRated: 'Andel 10:or per år du betygsatte',
+    tensShare: 'Andel 10:or',
+    tens: (tens: number, rated: number) => `${count(tens)} av ${count(rated)} betyg`,
+  },
+
+  genreDashboard: {
+    heading: 'Genrer',
+    genreCount: 'Antal genrer',
+    topGenres: (genres: number) => `${genres} vanligaste genrerna`,
+    shareByDecade: 'Andel per decennium',
+    shareByYearRated: 'Andel av det du betygsatt per år',
+    averageByGenre: 'Snittbetyg per genre',
+    cooccurrence: 'Genrer som förekommer tillsammans',
+  },
+
+  people: {
+    heading: 'Personer',
+    roles: {
+      director: 'Regissörer',
+      cast: 'Skådespelare',
+    } as { [role in PersonRole]: string },
+    sorts: {
+      count: 'Antal titlar',
+      averageRating: 'Snittbetyg',
+      name: 'Namn',
+      lastYear: 'Senast aktiv',
+    } as { [sort in PeopleSort]: string },
+    sortBy: 'Sortera efter',
+    atLeast: 'Minst',
+    titles: 'titlar',
+    peopleCount: (people: number) => `${count(people)} personer`,
+    name: 'Namn',
+    titleCount: 'Titlar',
+    average: 'Snitt',
+    best: 'Bäst',
+    worst: 'Sämst',
+    active: 'Aktiv',
+    showTitles: 'Visa personens titlar i listan',
+    noneWithThatMany: 'Ingen har så många titlar. Sänk gränsen för att se fler.',
+    showMore: 'Visa fler',
+  },
+
+  list: {
+    ratingsHeading: 'Alla Betygsatta Filmer',
+    watchlistHeading: 'Bevakningslista',
+    filterGenre: 'Filtrera på genre',
+    showFewerGenres: 'Visa färre',
+    showAllGenres: (genres: number) => `Visa alla ${genres} genrer`,
+    filterYear: 'Filtrera på årtal',
+    filterRating: 'Filtrera på betyg',
+    filterDirector: 'Filtrera regissör',
+    directorPlaceholder: 'Sök regissör...',
+    filterCast: 'Filtrera skådespelare',
+    castPlaceholder: 'Sök skådespelare...',
+    filterSource: 'Filtrera på källa',
+    sortBy: 'Sortera efter',
+    sortLabel: 'Sortera filmer',
+    matching: (titles: number) => `${count(titles)} filmer matchar ditt filter.`,
+    clearFilters: 'Rensa filter',
+    exportFormat: 'Exportformat',
+    export: 'Exportera',
+    exportHint: 'Ladda ner filmerna i listan med aktuella filter och sortering',
+    randomPick: 'Slumpa en film',
+    tonightsPick: 'Kvällens film',
+    listLabel: 'Filmer',
+    directedBy: 'Regi:',
+    cast: 'Medverkande:',
+    rated: (date: string) => `Betygsatt: ${date}`,
+    added: (date: string) => `Tillagd: ${date}`,
+    imdbRating: (rating: string) => `IMDb-betyg ${rating}`,
+    source: (sources: string) => `Källa: ${sources}`,
+    noMatches: 'Inga filmer matchade ditt filter.',
+    filterTags: 'Filtrera på dina taggar',
+    person: (role: PersonRole, name: string) => (role === 'director' ? `Regi: ${name}` : `Medverkande: ${name}`),
+    clearPerson: (name: string) => `Ta bort filtret på ${name}`,
+  },
+
+  annotations: {
+    heading: 'Dina anteckningar',
+    storedLocally: 'Sparas bara lokalt i din webbläsare och följer med när du importerar en nyare fil.',
+    flags: {
+      favourite: 'Favorit',
+      rewatch: 'Se igen',
+    },
+    tags: 'Taggar',
+    addTag: 'Lägg till taggar, separerade med komma',
+    removeTag: (tag: string) => `Ta bort taggen ${tag}`,
+    note: 'Anteckning',
+  },
+
+  sorts: {
+    rating_desc: 'Betyg (fallande)',
+    rating_asc: 'Betyg (stigande)',
+    imdb_rating_desc: 'IMDb-betyg (fallande)',
+    imdb_rating_asc: 'IMDb-betyg (stigande)',
+    title_asc: 'Titel (A-Ö)',
+    title_desc: 'Titel (Ö-A)',
+    original_title_asc: 'Originaltitel (A-Ö)',
+    original_title_desc: 'Originaltitel (Ö-A)',
+    year_desc: 'Årtal (nyast först)',
+    year_asc: 'Årtal (äldst först)',
+    rated_date_desc: 'Datum betygsatt (nyast först)',
+    rated_date_asc: 'Datum betygsatt (äldst först)',
+    runtime_asc: 'Längd (kortast först)',
+    runtime_desc: 'Längd (längst först)',
+    created_desc: 'Tillagd (nyast först)',
+    created_asc: 'Tillagd (äldst först)',
+    tags_asc: 'Taggar (A-Ö)',
+    favourites_first: 'Favoriter först',
+    rewatch_first: 'Se igen först',
+  } as { [sort in SortOption]: string },
+
+  exportFormats: {
+    csv: 'CSV (IMDb-format)',
+    json: 'JSON',
+    letterboxd: 'Letterboxd-import (CSV)',
+  } as { [format in ExportFormat]: string },
+
+  // Used to name downloaded files.
+  exportFileNames: {
+    ratings: 'betyg',
+    list: 'bevakningslista',
+    letterboxd: 'letterboxd',
+  },
+
+  search: {
+    label: 'Sök filmer',
+    fields: {
+      title: 'Titel eller originaltitel',
+      director: 'Regissör',
+      cast: 'Medverkande',
+      genre: 'Genre',
+      type: 'Titeltyp, t.ex. movie eller tvSeries',
+      year: 'Årtal, t.ex. 1994 eller 1950..1970',
+      rating: 'Ditt betyg, t.ex. >=8',
+      imdb: 'IMDb-betyg, t.ex. >7.5',
+      runtime: 'Längd i minuter, t.ex. <90',
+    } as { [field in SearchField]: string },
+    unterminatedQuote: 'Citattecknet avslutas aldrig.',
+    unknownField: (field: string, fields: string) => `Okänt fält "${field}". Giltiga fält: ${fields}.`,
+    missingValue: (field: string) => `Fältet "${field}" saknar värde.`,
+    rangeWithoutBounds: 'Intervallet saknar gränser.',
+    invalidRange: (value: string) => `"${value}" är inget giltigt intervall.`,
+    reversedRange: 'Intervallets början är större än slutet.',
+    invalidNumber: (value: string) => `"${value}" är inget giltigt tal.`,
+    integerRequired: (field: string) => `Fältet "${field}" kräver heltal.`,
+    outOfBounds: (field: string, min: number, max: number) => `Fältet "${field}" måste ligga mellan ${min} och ${max}.`,
+    results: 'Sökresultat',
+    noResults: 'Inga filmer matchade din sökning.',
+  },
+
+  modal: {
+    close: 'Stäng',
+    searchPlaceholder: 'Sök titel, regissör eller skådespelare...',
+    searchLabel: 'Sök bland filmerna',
+  },
+
+  drawer: {
+    openDetails: (title: string) => `Visa detaljer för ${title}`,
+    openOnImdb: 'Öppna på IMDb',
+    originalTitle: 'Originaltitel',
+    titleType: 'Titeltyp',
+    year: 'Årtal',
+    yourRating: 'Ditt betyg',
+    imdbRating: 'IMDb-betyg',
+    numVotes: 'Antal röster',
+    runtime: 'Längd',
+    minutes: (minutes: number) => `${minutes} min`,
+    releaseDate: 'Premiär',
+    dateRated: 'Betygsatt',
+    created: 'Tillagd',
+    position: 'Plats i listan',
+    genres: 'Genrer',
+    directors: 'Regi',
+    cast: 'Medverkande',
+    sources: 'Källa',
+    otherColumns: 'Övriga kolumner',
+    rankHeading: 'Placering bland dina betyg',
+    rank: (rank: number, total: number) => `Plats ${count(rank)} av ${count(total)}`,
+    tied: (others: number) =>
+      others === 1 ? 'Delad med en annan titel med samma betyg' : `Delad med ${count(others)} andra titlar med samma betyg`,
+    sameDirector: 'Mer av samma regissör',
+    sameYear: (year: number) => `Annat från ${year} som du betygsatt`,
+  },
+
+  diff: {
+    heading: 'Jämför exporter',
+    intro: 'Ladda upp en äldre export för att se vad som har ändrats sedan dess. Titlar matchas på IMDb-id (Const).',
+    older: 'Äldre export',
+    newer: 'Nyare export',
+    averageRating: 'Snittbetyg:',
+    added: 'Nya betyg',
+    removed: 'Borttagna',
+    rerated: 'Ändrade betyg',
+    noChanges: 'Inga ändringar i den här kategorin.',
+  },
+};
+
+export type Messages = typeof sv;
+
+export default sv;
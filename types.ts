@@ -1,9 +1,405 @@
-
 export interface IMDbEntry {
   [key: string]: string;
 }
 
+// Normalized form of IMDb's "Title Type" column.
+export type TitleType =
+  | 'movie'
+  | 'tvSeries'
+  | 'tvMiniSeries'
+  | 'tvEpisode'
+  | 'tvMovie'
+  | 'tvSpecial'
+  | 'short'
+  | 'video'
+  | 'videoGame'
+  | 'musicVideo'
+  | 'podcastSeries'
+  | 'podcastEpisode'
+  | 'other';
+
+// A single rated title, parsed once at import so components never re-parse raw strings.
+export interface Title {
+  id: string;
+  title: string;
+  originalTitle: string | null;
+  url: string;
+  titleType: TitleType;
+  year: number | null;
+  yourRating: number | null;
+  imdbRating: number | null;
+  runtimeMinutes: number | null;
+  numVotes: number | null;
+  releaseDate: Date | null;
+  dateRated: Date | null;
+  // When the title was added to a watchlist or custom list, and its place there.
+  created: Date | null;
+  position: number | null;
+  genres: string[];
+  directors: string[];
+  cast: string[];
+  // Line in the source file, kept for diagnostics.
+  line: number;
+  // Names of the uploaded files this title was found in.
+  sources: string[];
+  // Columns the app does not know about, keyed by their original header.
+  metadata: { [column: string]: string };
+}
+
+export type ChartDimension = 'year' | 'decade' | 'genre' | 'director' | 'rating' | 'runtime' | 'titleType' | 'monthRated';
+
+export type ChartMetric = 'count' | 'averageRating' | 'averageImdbRating' | 'totalRuntime';
+
+export type ChartMode = 'bar' | 'line' | 'stacked';
+
+export interface ChartConfig {
+  dimension: ChartDimension;
+  metric: ChartMetric;
+  mode: ChartMode;
+}
+
+// One group along the chart's dimension, e.g. a year, a genre or a runtime bucket.
 export interface ChartDataPoint {
-  year: string;
+  key: string;
+  label: string;
+  // The selected metric for the whole group.
+  value: number;
+  count: number;
+  // The metric per title type, used when the chart stacks bars by title type.
+  valuesByType: { [type in TitleType]?: number };
+}
+
+export type CsvDelimiter = ',' | ';';
+
+export type CsvDiagnosticCode = 'column_mismatch' | 'unterminated_quote' | 'stray_quote';
+
+export interface CsvDiagnostic {
+  // 1-based physical line in the file where the record starts.
+  line: number;
+  code: CsvDiagnosticCode;
+  // 'error' means the row was skipped, 'warning' means it was kept as read.
+  severity: 'error' | 'warning';
+  // Set for column_mismatch.
+  fieldCount?: number;
+  expectedFieldCount?: number;
+}
+
+export interface CsvRow {
+  line: number;
+  values: IMDbEntry;
+}
+
+export interface CsvParseResult {
+  header: string[];
+  rows: CsvRow[];
+  delimiter: CsvDelimiter;
+  diagnostics: CsvDiagnostic[];
+  // Data records read after the header, including ones that were skipped.
+  recordCount: number;
+  // Rows folded into another row for the same title, as rewatches in a diary or history are.
+  mergedRows?: number;
+}
+
+// Ratings exports carry "Your Rating"; watchlist and custom-list exports have list columns instead.
+export type ExportKind = 'ratings' | 'list';
+
+// The site a file was exported from; each has an import adapter that maps it onto IMDb's columns.
+export type ImportFormat = 'imdb' | 'letterboxd' | 'trakt' | 'criticker';
+
+export type SkipReason = CsvDiagnosticCode | 'missing_year' | 'year_out_of_range';
+
+// Details are kept rather than a finished message so the report can be shown in any language.
+// Reports stored before that have none, and are described by their reason alone.
+export interface SkippedRow {
+  line: number;
+  reason: SkipReason;
+  title?: string;
+  year?: number;
+  fieldCount?: number;
+  expectedFieldCount?: number;
+}
+
+// Summary of one import, explaining how the rows in the file became the titles shown.
+export interface ImportReport {
+  fileName: string;
+  // Missing on reports stored before other sites could be imported; those were all IMDb files.
+  format?: ImportFormat;
+  exportKind: ExportKind;
+  // Data rows in the file, excluding the header.
+  totalRows: number;
+  // Rows the CSV parser could read into columns.
+  parsedRows: number;
+  // Parsed rows that were further viewings of a title already in the file. Missing on reports
+  // stored before rewatches were merged.
+  mergedRows?: number;
+  // Titles left after filtering.
+  importedRows: number;
+  skippedRows: SkippedRow[];
+  titleTypeCounts: { [type in TitleType]?: number };
+  missingRequiredColumns: string[];
+  missingOptionalColumns: string[];
+  // Rows that were kept but read leniently.
+  warnings: CsvDiagnostic[];
+}
+
+export interface StoredDatasetInfo {
+  id: number;
+  fileName: string;
+  // Epoch milliseconds.
+  importedAt: number;
+  rowCount: number;
+}
+
+export interface StoredDataset extends StoredDatasetInfo {
+  titles: Title[];
+  availableColumns: string[];
+  // One report per merged file.
+  reports: ImportReport[];
+}
+
+// How to pick a rating when the same title is rated differently in merged files.
+export type ConflictRule = 'newest' | 'highest' | 'lowest' | 'first_file' | 'last_file';
+
+export interface RatingChange {
+  title: Title;
+  oldRating: number | null;
+  newRating: number | null;
+}
+
+// Differences between two exports of the same account, matched on Const.
+export interface ExportDiff {
+  added: Title[];
+  removed: Title[];
+  rerated: RatingChange[];
+  oldAverage: number | null;
+  newAverage: number | null;
+}
+
+export type TimelineGranularity = 'month' | 'year';
+
+export interface TimelinePoint {
+  // "YYYY" or "YYYY-MM", depending on granularity.
+  period: string;
+  label: string;
+  count: number;
+  average: number | null;
+  // Average over the trailing window of periods, weighted by the number of ratings in each.
+  rollingAverage: number | null;
+}
+
+export interface RatingStreak {
+  start: Date;
+  end: Date;
+  days: number;
+}
+
+// Average of Your Rating minus IMDb Rating for one group of titles.
+export interface DeviationGroup {
+  key: string;
+  label: string;
+  count: number;
+  averageDeviation: number;
+}
+
+// Filters shared by the chart, the list, search results and the drill-down modal.
+export interface TitleFilters {
+  // Raw IMDb genre names; a title must have every selected genre.
+  genres: Set<string>;
+  ratings: Set<number>;
+  // Kept as the raw input text; an empty bound is open.
+  yearRange: { min: string; max: string };
+  director: string;
+  cast: string;
+  sources: Set<string>;
+  // Your own tags; a title must have every selected tag.
+  tags: Set<string>;
+  flags: Set<AnnotationFlag>;
+  // Someone picked in the people leaderboard. Unlike the director and cast fields, which match
+  // any name containing the text, this matches the name exactly.
+  person: { role: PersonRole; name: string } | null;
+}
+
+export type SortOption = 'rating_desc' | 'rating_asc' | 'title_asc' | 'title_desc' | 'original_title_asc' | 'original_title_desc' | 'year_desc' | 'year_asc' | 'rated_date_desc' | 'rated_date_asc' | 'imdb_rating_desc' | 'imdb_rating_asc' | 'runtime_asc' | 'runtime_desc' | 'created_desc' | 'created_asc' | 'tags_asc' | 'favourites_first' | 'rewatch_first';
+
+// A chart group opened in the drill-down modal.
+export interface ChartSelection {
+  dimension: ChartDimension;
+  key: string;
+}
+
+// Fields understood by the search bar, e.g. `director:bergman` or `year:1950..1970`.
+export type SearchField = 'title' | 'director' | 'cast' | 'genre' | 'type' | 'year' | 'rating' | 'imdb' | 'runtime';
+
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+  minInclusive: boolean;
+  maxInclusive: boolean;
+}
+
+export interface SearchTerm {
+  // null for free text, which is matched against the search index.
+  field: SearchField | null;
+  negated: boolean;
+  // Lower-cased value for text fields; range for numeric ones.
+  text: string;
+  range: NumberRange | null;
+}
+
+export interface SearchQueryError {
+  // Character offsets into the query, end exclusive.
+  start: number;
+  end: number;
+  message: string;
+}
+
+export interface ParsedSearchQuery {
+  terms: SearchTerm[];
+  errors: SearchQueryError[];
+}
+
+export interface SearchSuggestion {
+  label: string;
+  detail: string;
+  // Replaces query.slice(start, end) when the suggestion is picked.
+  replacement: string;
+  start: number;
+  end: number;
+}
+
+export type PersonRole = 'director' | 'cast';
+
+// One director or cast member and how their titles fared.
+export interface PersonStats {
+  name: string;
+  count: number;
+  averageRating: number | null;
+  best: Title | null;
+  worst: Title | null;
+  firstYear: number | null;
+  lastYear: number | null;
+}
+
+export type PeopleSort = 'count' | 'averageRating' | 'name' | 'lastYear';
+
+export interface GenreAverage {
+  // Raw IMDb genre name; label is its name in the current language.
+  genre: string;
+  label: string;
   count: number;
+  average: number | null;
+}
+
+// One decade or rating period with a percentage per genre.
+export interface GenreSharePoint {
+  key: string;
+  label: string;
+  total: number;
+  shares: { [genre: string]: number };
+}
+
+export interface GenreCooccurrence {
+  genres: string[];
+  // counts[i][j] is the number of titles tagged with both genres[i] and genres[j];
+  // the diagonal holds each genre's own count.
+  counts: number[][];
+}
+
+export type Locale = 'sv' | 'en';
+
+// Formats the filtered list can be downloaded in; 'letterboxd' is Letterboxd's import CSV.
+export type ExportFormat = 'csv' | 'json' | 'letterboxd';
+
+// Where a title lands when all your rated titles are ordered by your rating. Titles with the
+// same rating share a place, so several can be ranked 1.
+export interface TitleRank {
+  rank: number;
+  total: number;
+  // Other titles with the same rating.
+  tied: number;
+}
+
+export type AnnotationFlag = 'favourite' | 'rewatch';
+
+// What you add to a title yourself. Kept apart from the imported data and keyed by Const, so it
+// stays with the title when a newer export is imported.
+export interface TitleAnnotation {
+  tags: string[];
+  note: string;
+  favourite: boolean;
+  rewatch: boolean;
+}
+
+export type Annotations = { [id: string]: TitleAnnotation };
+
+export interface NamedCount {
+  name: string;
+  count: number;
+}
+
+// One calendar year of your ratings, by Date Rated.
+export interface YearSummary {
+  year: number;
+  count: number;
+  average: number | null;
+  totalRuntime: number;
+  topGenre: NamedCount | null;
+  topDirector: NamedCount | null;
+}
+
+export interface YearInReview extends YearSummary {
+  // Everything rated that year, best rated first.
+  titles: Title[];
+  top: Title[];
+  // The worst rated, never repeating a title already in top.
+  bottom: Title[];
+  // The film with the earliest release year.
+  oldest: Title | null;
+  // null when nothing was rated the year before.
+  previous: YearSummary | null;
+}
+
+export interface RatingBin {
+  rating: number;
+  count: number;
+}
+
+export interface RatingSummary {
+  count: number;
+  mean: number;
+  median: number;
+  // Population standard deviation; the titles are all your ratings, not a sample of them.
+  standardDeviation: number;
+}
+
+// Values at each of PERCENTILES, in the same order.
+export interface PercentileSummary {
+  count: number;
+  values: number[];
+}
+
+export type CorrelatedField = 'year' | 'runtime' | 'imdbRating';
+
+// Pearson's r between your rating and another field, over the titles that have both.
+export interface Correlation {
+  field: CorrelatedField;
+  r: number;
+  pairs: number;
+}
+
+export interface TensPoint {
+  year: number;
+  rated: number;
+  tens: number;
+  // Percent of the year's ratings that were 10.
+  share: number;
+}
+
+export interface StatsSummary {
+  histogram: RatingBin[];
+  rating: RatingSummary | null;
+  releaseYear: PercentileSummary | null;
+  runtime: PercentileSummary | null;
+  correlations: Correlation[];
+  tensByYearRated: TensPoint[];
 }
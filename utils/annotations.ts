@@ -0,0 +1,31 @@
+import { AnnotationFlag, Annotations, TitleAnnotation } from '../types';
+
+export const ANNOTATION_FLAGS: AnnotationFlag[] = ['favourite', 'rewatch'];
+
+export const EMPTY_ANNOTATION: TitleAnnotation = { tags: [], note: '', favourite: false, rewatch: false };
+
+export const annotationFor = (annotations: Annotations, id: string): TitleAnnotation => annotations[id] ?? EMPTY_ANNOTATION;
+
+export const isEmptyAnnotation = (annotation: TitleAnnotation) =>
+  annotation.tags.length === 0 && annotation.note.trim() === '' && !annotation.favourite && !annotation.rewatch;
+
+// Tags typed as a comma-separated list. A tag differing only in case from an earlier one is dropped.
+export const parseTags = (text: string): string[] => {
+  const seen = new Set<string>();
+  return text.split(',').map(tag => tag.trim()).filter(tag => {
+    const key = tag.toLowerCase();
+    if (tag === '' || seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+};
+
+// Returns a copy with the title's annotation replaced; an empty annotation removes the entry.
+export const withAnnotation = (annotations: Annotations, id: string, annotation: TitleAnnotation): Annotations => {
+  const { [id]: _previous, ...rest } = annotations;
+  return isEmptyAnnotation(annotation) ? rest : { ...rest, [id]: annotation };
+};
+
+// Every tag in use, for the list's tag filter.
+export const tagsInUse = (annotations: Annotations, compare: (a: string, b: string) => number): string[] =>
+  Array.from(new Set(Object.values(annotations).flatMap(annotation => annotation.tags))).sort(compare);
@@ -0,0 +1,145 @@
+import { ChartDataPoint, ChartDimension, ChartMetric, Title, TitleType } from '../types';
+import { genreLabel, Messages } from './i18n';
+import { periodKey, periodLabel } from './timeline';
+
+export const CHART_DIMENSIONS: ChartDimension[] = ['year', 'decade', 'genre', 'director', 'rating', 'runtime', 'titleType', 'monthRated'];
+
+export const CHART_METRICS: ChartMetric[] = ['count', 'averageRating', 'averageImdbRating', 'totalRuntime'];
+
+// Too many directors make the chart unreadable, so only the most frequent ones are shown.
+const MAX_DIRECTOR_GROUPS = 30;
+const RUNTIME_BUCKET_MINUTES = 30;
+
+// Sums and averages can only be stacked meaningfully when the parts add up to the whole.
+export const isAdditiveMetric = (metric: ChartMetric) => metric === 'count' || metric === 'totalRuntime';
+
+// Dimensions with a natural order keep it; the rest are ordered by value.
+const isOrderedDimension = (dimension: ChartDimension) =>
+  dimension === 'year' || dimension === 'decade' || dimension === 'rating' || dimension === 'runtime' || dimension === 'monthRated';
+
+// The keys a title belongs to along a dimension; genres and directors can give several.
+export const groupKeys = (title: Title, dimension: ChartDimension): string[] => {
+  switch (dimension) {
+    case 'year':
+      return title.year !== null ? [String(title.year)] : [];
+    case 'decade':
+      return title.year !== null ? [String(Math.floor(title.year / 10) * 10)] : [];
+    case 'genre':
+      return title.genres;
+    case 'director':
+      return title.directors;
+    case 'rating':
+      return title.yourRating !== null ? [String(title.yourRating).padStart(2, '0')] : [];
+    case 'runtime':
+      if (title.runtimeMinutes === null) return [];
+      return [String(Math.floor(title.runtimeMinutes / RUNTIME_BUCKET_MINUTES) * RUNTIME_BUCKET_MINUTES).padStart(3, '0')];
+    case 'titleType':
+      return [title.titleType];
+    case 'monthRated':
+      return title.dateRated ? [periodKey(title.dateRated, 'month')] : [];
+  }
+};
+
+export const groupLabel = (key: string, dimension: ChartDimension, t: Messages): string => {
+  switch (dimension) {
+    case 'decade':
+      return t.decade(key);
+    case 'genre':
+      return genreLabel(t, key);
+    case 'rating':
+      return String(Number(key));
+    case 'runtime': {
+      const start = Number(key);
+      return t.chart.runtimeBucket(start, start + RUNTIME_BUCKET_MINUTES - 1);
+    }
+    case 'titleType':
+      return t.titleTypes[key as TitleType] ?? key;
+    case 'monthRated':
+      return periodLabel(key, 'month', t.languageTag);
+    default:
+      return key;
+  }
+};
+
+interface Accumulator {
+  count: number;
+  ratingSum: number;
+  ratingCount: number;
+  imdbSum: number;
+  imdbCount: number;
+  runtimeSum: number;
+}
+
+const emptyAccumulator = (): Accumulator => ({ count: 0, ratingSum: 0, ratingCount: 0, imdbSum: 0, imdbCount: 0, runtimeSum: 0 });
+
+const accumulate = (acc: Accumulator, title: Title) => {
+  acc.count++;
+  if (title.yourRating !== null) {
+    acc.ratingSum += title.yourRating;
+    acc.ratingCount++;
+  }
+  if (title.imdbRating !== null) {
+    acc.imdbSum += title.imdbRating;
+    acc.imdbCount++;
+  }
+  acc.runtimeSum += title.runtimeMinutes ?? 0;
+};
+
+const metricValue = (acc: Accumulator, metric: ChartMetric): number => {
+  switch (metric) {
+    case 'averageRating':
+      return acc.ratingCount > 0 ? acc.ratingSum / acc.ratingCount : 0;
+    case 'averageImdbRating':
+      return acc.imdbCount > 0 ? acc.imdbSum / acc.imdbCount : 0;
+    case 'totalRuntime':
+      return acc.runtimeSum;
+    case 'count':
+    default:
+      return acc.count;
+  }
+};
+
+export const createChartData = (titles: Title[], dimension: ChartDimension, metric: ChartMetric, t: Messages): ChartDataPoint[] => {
+  const groups = new Map<string, { total: Accumulator; byType: { [type in TitleType]?: Accumulator } }>();
+  titles.forEach(title => {
+    groupKeys(title, dimension).forEach(key => {
+      let group = groups.get(key);
+      if (!group) {
+        group = { total: emptyAccumulator(), byType: {} };
+        groups.set(key, group);
+      }
+      accumulate(group.total, title);
+      const typeAcc = group.byType[title.titleType] || (group.byType[title.titleType] = emptyAccumulator());
+      accumulate(typeAcc, title);
+    });
+  });
+
+  let entries = Array.from(groups.entries());
+  if (dimension === 'director') {
+    entries = entries.sort((a, b) => b[1].total.count - a[1].total.count).slice(0, MAX_DIRECTOR_GROUPS);
+  }
+
+  const points = entries.map(([key, group]) => {
+    const valuesByType: { [type in TitleType]?: number } = {};
+    (Object.keys(group.byType) as TitleType[]).forEach(type => {
+      valuesByType[type] = metricValue(group.byType[type]!, metric);
+    });
+    return {
+      key,
+      label: groupLabel(key, dimension, t),
+      value: metricValue(group.total, metric),
+      count: group.total.count,
+      valuesByType,
+    };
+  });
+
+  // Numeric keys are compared as numbers, so a runtime of 1000 minutes or more follows 990;
+  // months ("YYYY-MM") already sort as text.
+  if (dimension === 'monthRated') return points.sort((a, b) => a.key.localeCompare(b.key));
+  return isOrderedDimension(dimension)
+    ? points.sort((a, b) => Number(a.key) - Number(b.key))
+    : points.sort((a, b) => b.value - a.value);
+};
+
+export const titlesInGroup = (titles: Title[], dimension: ChartDimension, key: string) =>
+  titles.filter(title => groupKeys(title, dimension).includes(key));
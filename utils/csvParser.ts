@@ -0,0 +1,269 @@
+import { CsvDelimiter, CsvDiagnostic, CsvParseResult, CsvRow, IMDbEntry } from '../types';
+
+// Files are read in slices of this size so large exports never block the tab for long.
+const DEFAULT_CHUNK_SIZE = 256 * 1024;
+
+interface RawRecord {
+  line: number;
+  fields: string[];
+}
+
+interface CsvTokenizer {
+  write: (chunk: string) => void;
+  end: () => void;
+  delimiter: () => CsvDelimiter;
+}
+
+export interface ParseFileOptions {
+  chunkSize?: number;
+  onProgress?: (fraction: number) => void;
+}
+
+// Picks whichever of comma and semicolon occurs most often outside quotes in the header line.
+const detectDelimiter = (headerLine: string): CsvDelimiter => {
+  let commas = 0;
+  let semicolons = 0;
+  let inQuotes = false;
+  for (const ch of headerLine) {
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && ch === ',') commas++;
+    else if (!inQuotes && ch === ';') semicolons++;
+  }
+  return commas >= semicolons ? ',' : ';';
+};
+
+// Returns the text up to the first line break outside quotes, or null if the chunk has none yet.
+const findHeaderLine = (text: string): string | null => {
+  let inQuotes = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && (ch === '\n' || ch === '\r')) return text.substring(0, i);
+  }
+  return null;
+};
+
+// RFC 4180 tokenizer that accepts text in arbitrary chunks. Quoted fields may contain
+// delimiters, doubled quotes and line breaks, and chunk boundaries may fall anywhere.
+const createCsvTokenizer = (
+  onRecord: (record: RawRecord) => void,
+  onDiagnostic: (diagnostic: CsvDiagnostic) => void
+): CsvTokenizer => {
+  let delimiter: CsvDelimiter | null = null;
+  let pending = '';
+  let isFirstChunk = true;
+
+  let field = '';
+  let fields: string[] = [];
+  let inQuotes = false;
+  let quoted = false;
+  let afterQuote = false;
+  let prevCR = false;
+  let line = 1;
+  let recordLine = 1;
+  let recordHasStrayQuote = false;
+
+  const reportStrayQuote = () => {
+    if (recordHasStrayQuote) return;
+    recordHasStrayQuote = true;
+    onDiagnostic({
+      line: recordLine,
+      code: 'stray_quote',
+      severity: 'warning',
+    });
+  };
+
+  const endField = () => {
+    fields.push(quoted ? field : field.trim());
+    field = '';
+    quoted = false;
+    afterQuote = false;
+  };
+
+  const endRecord = () => {
+    // Blank lines between records are ignored rather than treated as one-column rows.
+    if (fields.length === 0 && !quoted && field.trim() === '') {
+      field = '';
+    } else {
+      endField();
+      onRecord({ line: recordLine, fields });
+    }
+    fields = [];
+    recordHasStrayQuote = false;
+  };
+
+  const consume = (text: string) => {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (ch === '\n' && prevCR) {
+        // Second half of a CRLF pair; the line break was already handled at the CR.
+        prevCR = false;
+        if (inQuotes) field += ch;
+        continue;
+      }
+      const isLineBreak = ch === '\n' || ch === '\r';
+      prevCR = ch === '\r';
+
+      if (inQuotes) {
+        if (ch === '"') {
+          inQuotes = false;
+          afterQuote = true;
+        } else {
+          if (isLineBreak) line++;
+          field += ch;
+        }
+        continue;
+      }
+
+      if (ch === '"') {
+        if (afterQuote) {
+          // A doubled quote inside a quoted field is a literal quote.
+          field += '"';
+          inQuotes = true;
+          afterQuote = false;
+        } else if (!quoted && field.trim() === '') {
+          field = '';
+          quoted = true;
+          inQuotes = true;
+        } else {
+          reportStrayQuote();
+          field += ch;
+        }
+        continue;
+      }
+
+      if (ch === delimiter) {
+        endField();
+        continue;
+      }
+
+      if (isLineBreak) {
+        endRecord();
+        line++;
+        recordLine = line;
+        continue;
+      }
+
+      if (afterQuote) {
+        if (ch.trim() === '') continue;
+        reportStrayQuote();
+      }
+      field += ch;
+    }
+  };
+
+  const write = (chunk: string) => {
+    if (isFirstChunk && chunk.length > 0) {
+      isFirstChunk = false;
+      // Handle Byte Order Mark (BOM)
+      if (chunk.charCodeAt(0) === 0xFEFF) chunk = chunk.substring(1);
+    }
+    if (delimiter === null) {
+      pending += chunk;
+      const headerLine = findHeaderLine(pending);
+      if (headerLine === null) return;
+      delimiter = detectDelimiter(headerLine);
+      chunk = pending;
+      pending = '';
+    }
+    consume(chunk);
+  };
+
+  const end = () => {
+    if (delimiter === null) {
+      delimiter = detectDelimiter(pending);
+      consume(pending);
+      pending = '';
+    }
+    if (inQuotes) {
+      onDiagnostic({
+        line: recordLine,
+        code: 'unterminated_quote',
+        severity: 'error',
+      });
+      inQuotes = false;
+      field = '';
+      fields = [];
+      return;
+    }
+    if (fields.length > 0 || quoted || field.trim() !== '') {
+      endRecord();
+    }
+  };
+
+  return { write, end, delimiter: () => delimiter ?? ',' };
+};
+
+// Turns tokenized records into header-keyed rows and collects per-line diagnostics.
+const createRowCollector = () => {
+  let header: string[] | null = null;
+  const rows: CsvRow[] = [];
+  const diagnostics: CsvDiagnostic[] = [];
+  let recordCount = 0;
+
+  const onRecord = ({ line, fields }: RawRecord) => {
+    if (header === null) {
+      header = fields.map(h => h.trim());
+      return;
+    }
+    recordCount++;
+    if (fields.length !== header.length) {
+      diagnostics.push({
+        line,
+        code: 'column_mismatch',
+        severity: 'error',
+        fieldCount: fields.length,
+        expectedFieldCount: header.length,
+      });
+      return;
+    }
+    const values: IMDbEntry = {};
+    for (let j = 0; j < header.length; j++) {
+      values[header[j]] = fields[j];
+    }
+    rows.push({ line, values });
+  };
+
+  const onDiagnostic = (diagnostic: CsvDiagnostic) => {
+    diagnostics.push(diagnostic);
+  };
+
+  const result = (delimiter: CsvDelimiter): CsvParseResult => ({
+    header: header ?? [],
+    rows,
+    delimiter,
+    diagnostics: diagnostics.sort((a, b) => a.line - b.line),
+    recordCount,
+  });
+
+  return { onRecord, onDiagnostic, result };
+};
+
+const yieldToBrowser = () => new Promise<void>(resolve => setTimeout(resolve, 0));
+
+export const parseCSV = (text: string): CsvParseResult => {
+  const collector = createRowCollector();
+  const tokenizer = createCsvTokenizer(collector.onRecord, collector.onDiagnostic);
+  tokenizer.write(text);
+  tokenizer.end();
+  return collector.result(tokenizer.delimiter());
+};
+
+// Streams a file through the tokenizer chunk by chunk, yielding to the browser in between.
+export const parseCSVFile = async (file: Blob, options: ParseFileOptions = {}): Promise<CsvParseResult> => {
+  const chunkSize = options.chunkSize ?? DEFAULT_CHUNK_SIZE;
+  const decoder = new TextDecoder('utf-8');
+  const collector = createRowCollector();
+  const tokenizer = createCsvTokenizer(collector.onRecord, collector.onDiagnostic);
+
+  for (let offset = 0; offset < file.size; offset += chunkSize) {
+    const buffer = await file.slice(offset, offset + chunkSize).arrayBuffer();
+    tokenizer.write(decoder.decode(buffer, { stream: true }));
+    options.onProgress?.(Math.min(offset + chunkSize, file.size) / file.size);
+    await yieldToBrowser();
+  }
+  tokenizer.write(decoder.decode());
+  tokenizer.end();
+  return collector.result(tokenizer.delimiter());
+};
@@ -0,0 +1,136 @@
+import { Annotations, ImportReport, StoredDataset, StoredDatasetInfo, Title, TitleAnnotation } from '../types';
+
+// Everything is kept in the browser's IndexedDB; nothing is ever sent anywhere.
+const DB_NAME = 'imdb-filmstatistik';
+const DB_VERSION = 2;
+// Summaries live in their own store so listing imports never loads every title.
+const INFO_STORE = 'datasetInfo';
+const DATA_STORE = 'datasetData';
+// Your own tags and notes, keyed by Const rather than by import so every import shares them.
+const ANNOTATION_STORE = 'annotations';
+
+interface StoredDatasetData {
+  id: number;
+  titles: Title[];
+  availableColumns: string[];
+  reports?: ImportReport[];
+  // Single-file imports stored before merging was supported have one report and no sources.
+  report?: ImportReport;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not supported in this browser'));
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(INFO_STORE)) {
+          db.createObjectStore(INFO_STORE, { keyPath: 'id', autoIncrement: true });
+        }
+        if (!db.objectStoreNames.contains(DATA_STORE)) {
+          db.createObjectStore(DATA_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(ANNOTATION_STORE)) {
+          db.createObjectStore(ANNOTATION_STORE);
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    // Allow a later call to retry if opening failed.
+    dbPromise.catch(() => { dbPromise = null; });
+  }
+  return dbPromise;
+};
+
+export const listDatasets = async (): Promise<StoredDatasetInfo[]> => {
+  const db = await openDatabase();
+  const infos = await requestToPromise(db.transaction(INFO_STORE).objectStore(INFO_STORE).getAll() as IDBRequest<StoredDatasetInfo[]>);
+  return infos.sort((a, b) => b.importedAt - a.importedAt);
+};
+
+export const saveDataset = async (
+  fileName: string,
+  titles: Title[],
+  availableColumns: string[],
+  reports: ImportReport[]
+): Promise<StoredDatasetInfo> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([INFO_STORE, DATA_STORE], 'readwrite');
+  const info: Omit<StoredDatasetInfo, 'id'> = { fileName, importedAt: Date.now(), rowCount: titles.length };
+  const id = await requestToPromise(transaction.objectStore(INFO_STORE).add(info)) as number;
+  const data: StoredDatasetData = { id, titles, availableColumns, reports };
+  transaction.objectStore(DATA_STORE).put(data);
+  await transactionDone(transaction);
+  return { id, ...info };
+};
+
+export const loadDataset = async (id: number): Promise<StoredDataset | null> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([INFO_STORE, DATA_STORE]);
+  const [info, data] = await Promise.all([
+    requestToPromise(transaction.objectStore(INFO_STORE).get(id) as IDBRequest<StoredDatasetInfo | undefined>),
+    requestToPromise(transaction.objectStore(DATA_STORE).get(id) as IDBRequest<StoredDatasetData | undefined>),
+  ]);
+  if (!info || !data) return null;
+  const { report, ...rest } = data;
+  return {
+    ...info,
+    ...rest,
+    titles: data.titles.map(title => (title.sources ? title : { ...title, sources: [info.fileName] })),
+    reports: data.reports ?? (report ? [report] : []),
+  };
+};
+
+export const deleteDataset = async (id: number): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction([INFO_STORE, DATA_STORE], 'readwrite');
+  transaction.objectStore(INFO_STORE).delete(id);
+  transaction.objectStore(DATA_STORE).delete(id);
+  await transactionDone(transaction);
+};
+
+export const loadAnnotations = async (): Promise<Annotations> => {
+  const db = await openDatabase();
+  const store = db.transaction(ANNOTATION_STORE).objectStore(ANNOTATION_STORE);
+  const [ids, annotations] = await Promise.all([
+    requestToPromise(store.getAllKeys()),
+    requestToPromise(store.getAll() as IDBRequest<TitleAnnotation[]>),
+  ]);
+  const result: Annotations = {};
+  ids.forEach((id, index) => {
+    result[String(id)] = annotations[index];
+  });
+  return result;
+};
+
+// null removes the title's annotation.
+export const saveAnnotation = async (id: string, annotation: TitleAnnotation | null): Promise<void> => {
+  const db = await openDatabase();
+  const transaction = db.transaction(ANNOTATION_STORE, 'readwrite');
+  if (annotation) {
+    transaction.objectStore(ANNOTATION_STORE).put(annotation, id);
+  } else {
+    transaction.objectStore(ANNOTATION_STORE).delete(id);
+  }
+  await transactionDone(transaction);
+};
@@ -0,0 +1,34 @@
+import { ExportDiff, RatingChange, Title } from '../types';
+
+export const averageRating = (titles: Title[]): number | null => {
+  const ratings = titles.map(title => title.yourRating).filter((rating): rating is number => rating !== null);
+  if (ratings.length === 0) return null;
+  return ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length;
+};
+
+const byRatingDesc = (a: Title, b: Title) => (b.yourRating ?? 0) - (a.yourRating ?? 0);
+
+export const diffExports = (older: Title[], newer: Title[]): ExportDiff => {
+  const olderById = new Map(older.map(title => [title.id, title]));
+  const newerIds = new Set(newer.map(title => title.id));
+
+  const added: Title[] = [];
+  const rerated: RatingChange[] = [];
+  newer.forEach(title => {
+    const previous = olderById.get(title.id);
+    if (!previous) {
+      added.push(title);
+    } else if (previous.yourRating !== title.yourRating) {
+      rerated.push({ title, oldRating: previous.yourRating, newRating: title.yourRating });
+    }
+  });
+  const removed = older.filter(title => !newerIds.has(title.id));
+
+  return {
+    added: added.sort(byRatingDesc),
+    removed: removed.sort(byRatingDesc),
+    rerated: rerated.sort((a, b) => Math.abs((b.newRating ?? 0) - (b.oldRating ?? 0)) - Math.abs((a.newRating ?? 0) - (a.oldRating ?? 0))),
+    oldAverage: averageRating(older),
+    newAverage: averageRating(newer),
+  };
+};
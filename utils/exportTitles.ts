@@ -0,0 +1,174 @@
+import { Annotations, ExportFormat, Title, TitleAnnotation, TitleType } from '../types';
+import { annotationFor } from './annotations';
+import { Messages } from './i18n';
+
+export const EXPORT_FORMATS: ExportFormat[] = ['csv', 'json', 'letterboxd'];
+
+export interface ExportFile {
+  content: string;
+  mimeType: string;
+  extension: string;
+}
+
+// YYYY-MM-DD from the local date, the same form IMDb writes and the importer reads back.
+const isoDate = (date: Date | null): string => {
+  if (!date) return '';
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+const numberText = (value: number | null) => (value === null ? '' : String(value));
+
+// Quotes a field when the parser would otherwise split it, trim it or read a quote in it.
+const csvField = (value: string) =>
+  /[",;\r\n]/.test(value) || value !== value.trim() ? `"${value.replace(/"/g, '""')}"` : value;
+
+const csvLine = (fields: string[]) => fields.map(csvField).join(',');
+
+// Your own tags, added as a column of their own; Letterboxd's import reads the same name.
+const TAGS_COLUMN = 'Tags';
+
+const tagsText = (annotation: TitleAnnotation) => annotation.tags.join(', ');
+
+// The labels IMDb's exports use in "Title Type"; titles of an unknown type are left blank.
+const IMDB_TITLE_TYPES: { [type in TitleType]: string } = {
+  movie: 'Movie',
+  tvSeries: 'TV Series',
+  tvMiniSeries: 'TV Mini Series',
+  tvEpisode: 'TV Episode',
+  tvMovie: 'TV Movie',
+  tvSpecial: 'TV Special',
+  short: 'Short',
+  video: 'Video',
+  videoGame: 'Video Game',
+  musicVideo: 'Music Video',
+  podcastSeries: 'Podcast Series',
+  podcastEpisode: 'Podcast Episode',
+  other: '',
+};
+
+// The value of one IMDb column, written the way normalizeEntry parses it.
+const columnValue = (title: Title, column: string, annotation: TitleAnnotation): string => {
+  switch (column) {
+    case 'Const':
+      return title.id;
+    case 'Title':
+      return title.title;
+    case 'Original Title':
+      return title.originalTitle ?? '';
+    case 'URL':
+      return title.url;
+    case 'Title Type':
+      return IMDB_TITLE_TYPES[title.titleType];
+    // Older exports named the column TitleType and wrote the types in camelCase.
+    case 'TitleType':
+      return title.titleType;
+    case 'Year':
+      return numberText(title.year);
+    case 'Your Rating':
+      return numberText(title.yourRating);
+    case 'IMDb Rating':
+      return numberText(title.imdbRating);
+    case 'Runtime (mins)':
+      return numberText(title.runtimeMinutes);
+    case 'Num Votes':
+      return numberText(title.numVotes);
+    case 'Release Date':
+      return isoDate(title.releaseDate);
+    case 'Date Rated':
+      return isoDate(title.dateRated);
+    case 'Created':
+      return isoDate(title.created);
+    case 'Position':
+      return numberText(title.position);
+    case 'Genres':
+      return title.genres.join(', ');
+    case 'Directors':
+      return title.directors.join(', ');
+    case 'Cast':
+      return title.cast.join(', ');
+    case TAGS_COLUMN:
+      // A file that already had a Tags column keeps its value for titles you have not tagged.
+      return annotation.tags.length > 0 ? tagsText(annotation) : title.metadata[column] ?? '';
+    default:
+      return title.metadata[column] ?? '';
+  }
+};
+
+// An IMDb-style CSV with the given columns, usually the ones the imported files had, so the
+// result can be imported again and reads back as the same titles. Tags are added as a last
+// column when any of the titles has them.
+export const titlesToCsv = (titles: Title[], columns: string[], annotations: Annotations): string => {
+  const hasTags = titles.some(title => annotationFor(annotations, title.id).tags.length > 0);
+  const header = hasTags && !columns.includes(TAGS_COLUMN) ? [...columns, TAGS_COLUMN] : columns;
+  return [
+    csvLine(header),
+    ...titles.map(title => {
+      const annotation = annotationFor(annotations, title.id);
+      return csvLine(header.map(column => columnValue(title, column, annotation)));
+    }),
+  ].join('\r\n') + '\r\n';
+};
+
+// The normalized records with dates as YYYY-MM-DD and your annotations alongside; the source
+// line number is left out.
+export const titlesToJson = (titles: Title[], annotations: Annotations): string =>
+  JSON.stringify(
+    titles.map(({ line, ...title }) => ({
+      ...title,
+      releaseDate: isoDate(title.releaseDate) || null,
+      dateRated: isoDate(title.dateRated) || null,
+      created: isoDate(title.created) || null,
+      ...annotationFor(annotations, title.id),
+    })),
+    null,
+    2
+  );
+
+// Letterboxd rates on five stars in halves, so IMDb's 1–10 maps onto 0.5–5.
+const halfStars = (rating: number | null) => (rating === null ? '' : String(rating / 2));
+
+// Letterboxd's import format, matched on imdbID with Title and Year as fallback.
+export const titlesToLetterboxdCsv = (titles: Title[], annotations: Annotations): string =>
+  [
+    csvLine(['imdbID', 'Title', 'Year', 'Rating', 'WatchedDate', TAGS_COLUMN]),
+    ...titles.map(title =>
+      csvLine([
+        title.id,
+        title.title,
+        numberText(title.year),
+        halfStars(title.yourRating),
+        isoDate(title.dateRated),
+        tagsText(annotationFor(annotations, title.id)),
+      ])
+    ),
+  ].join('\r\n') + '\r\n';
+
+export const exportTitles = (titles: Title[], format: ExportFormat, columns: string[], annotations: Annotations): ExportFile => {
+  switch (format) {
+    case 'json':
+      return { content: titlesToJson(titles, annotations), mimeType: 'application/json', extension: 'json' };
+    case 'letterboxd':
+      return { content: titlesToLetterboxdCsv(titles, annotations), mimeType: 'text/csv', extension: 'csv' };
+    case 'csv':
+    default:
+      return { content: titlesToCsv(titles, columns, annotations), mimeType: 'text/csv', extension: 'csv' };
+  }
+};
+
+// Saves the file through a temporary object URL; nothing leaves the browser.
+export const downloadFile = (file: ExportFile, baseName: string) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${baseName}.${file.extension}`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+export const exportFileName = (format: ExportFormat, isWatchlist: boolean, t: Messages, date: Date = new Date()) => {
+  const names = t.exportFileNames;
+  return `${format === 'letterboxd' ? names.letterboxd : isWatchlist ? names.list : names.ratings}-${isoDate(date)}`;
+};
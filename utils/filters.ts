@@ -0,0 +1,97 @@
+import { Annotations, Title, TitleFilters } from '../types';
+import { annotationFor } from './annotations';
+
+export const createEmptyFilters = (): TitleFilters => ({
+  genres: new Set(),
+  ratings: new Set(),
+  yearRange: { min: '', max: '' },
+  director: '',
+  cast: '',
+  sources: new Set(),
+  tags: new Set(),
+  flags: new Set(),
+  person: null,
+});
+
+export const hasActiveFilters = (filters: TitleFilters) =>
+  filters.genres.size > 0 ||
+  filters.ratings.size > 0 ||
+  filters.yearRange.min !== '' ||
+  filters.yearRange.max !== '' ||
+  filters.director.trim() !== '' ||
+  filters.cast.trim() !== '' ||
+  filters.sources.size > 0 ||
+  filters.tags.size > 0 ||
+  filters.flags.size > 0 ||
+  filters.person !== null;
+
+export const yearBounds = (titles: Title[]) => {
+  let min = Infinity;
+  let max = -Infinity;
+  titles.forEach(title => {
+    if (title.year === null) return;
+    if (title.year < min) min = title.year;
+    if (title.year > max) max = title.year;
+  });
+  return { min, max };
+};
+
+interface FilterOptions {
+  // The year chart leaves out its own filter so the brush can still be widened again.
+  ignoreYear?: boolean;
+}
+
+// Tags and flags are looked up in annotations, as they are not part of the imported titles.
+export const applyFilters = (titles: Title[], filters: TitleFilters, annotations: Annotations, options: FilterOptions = {}): Title[] => {
+  const min = parseInt(filters.yearRange.min, 10);
+  const max = parseInt(filters.yearRange.max, 10);
+  const useYear = !options.ignoreYear && (!isNaN(min) || !isNaN(max));
+  const director = filters.director.trim().toLowerCase();
+  const cast = filters.cast.trim().toLowerCase();
+  const genres = Array.from(filters.genres);
+  const tags = Array.from(filters.tags);
+  const flags = Array.from(filters.flags);
+
+  return titles.filter(title => {
+    if (useYear) {
+      if (title.year === null) return false;
+      if (!isNaN(min) && title.year < min) return false;
+      if (!isNaN(max) && title.year > max) return false;
+    }
+    if (genres.length > 0 && !genres.every(genre => title.genres.includes(genre))) {
+      return false;
+    }
+    if (filters.ratings.size > 0 && (title.yourRating === null || !filters.ratings.has(title.yourRating))) {
+      return false;
+    }
+    if (director && !title.directors.some(name => name.toLowerCase().includes(director))) {
+      return false;
+    }
+    if (cast && !title.cast.some(name => name.toLowerCase().includes(cast))) {
+      return false;
+    }
+    if (filters.person && !(filters.person.role === 'director' ? title.directors : title.cast).includes(filters.person.name)) {
+      return false;
+    }
+    if (filters.sources.size > 0 && !title.sources.some(source => filters.sources.has(source))) {
+      return false;
+    }
+    if (tags.length > 0 || flags.length > 0) {
+      const annotation = annotationFor(annotations, title.id);
+      if (!tags.every(tag => annotation.tags.includes(tag))) return false;
+      if (!flags.every(flag => annotation[flag])) return false;
+    }
+    return true;
+  });
+};
+
+// Returns a copy of the set with the value added or removed.
+export const toggleInSet = <T>(set: Set<T>, value: T): Set<T> => {
+  const next = new Set(set);
+  if (next.has(value)) {
+    next.delete(value);
+  } else {
+    next.add(value);
+  }
+  return next;
+};
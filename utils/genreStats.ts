@@ -0,0 +1,87 @@
+import { GenreAverage, GenreCooccurrence, GenreSharePoint, Title } from '../types';
+import { genreLabel, Messages } from './i18n';
+import { periodKey } from './timeline';
+
+// Genres ordered by how many titles carry them.
+export const genresByFrequency = (titles: Title[]): string[] => {
+  const counts = new Map<string, number>();
+  titles.forEach(title => title.genres.forEach(genre => counts.set(genre, (counts.get(genre) || 0) + 1)));
+  return Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([genre]) => genre);
+};
+
+export const averageRatingByGenre = (titles: Title[], t: Messages): GenreAverage[] => {
+  const groups = new Map<string, { count: number; sum: number; rated: number }>();
+  titles.forEach(title => {
+    title.genres.forEach(genre => {
+      const group = groups.get(genre) || { count: 0, sum: 0, rated: 0 };
+      group.count++;
+      if (title.yourRating !== null) {
+        group.sum += title.yourRating;
+        group.rated++;
+      }
+      groups.set(genre, group);
+    });
+  });
+  return Array.from(groups.entries())
+    .map(([genre, group]) => ({
+      genre,
+      label: genreLabel(t, genre),
+      count: group.count,
+      average: group.rated > 0 ? group.sum / group.rated : null,
+    }))
+    .sort((a, b) => (b.average ?? 0) - (a.average ?? 0) || b.count - a.count);
+};
+
+// Percentage of the titles in each group that carry each of the given genres. A title
+// with several genres counts toward all of them, so the shares can add up to over 100.
+const sharesByGroup = (titles: Title[], genres: string[], groupOf: (title: Title) => string | null, labelOf: (key: string) => string): GenreSharePoint[] => {
+  const groups = new Map<string, { total: number; counts: Map<string, number> }>();
+  titles.forEach(title => {
+    const key = groupOf(title);
+    if (key === null) return;
+    let group = groups.get(key);
+    if (!group) {
+      group = { total: 0, counts: new Map() };
+      groups.set(key, group);
+    }
+    group.total++;
+    title.genres.forEach(genre => group!.counts.set(genre, (group!.counts.get(genre) || 0) + 1));
+  });
+
+  return Array.from(groups.entries())
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([key, group]) => {
+      const shares: { [genre: string]: number } = {};
+      genres.forEach(genre => {
+        shares[genre] = ((group.counts.get(genre) || 0) / group.total) * 100;
+      });
+      return { key, label: labelOf(key), total: group.total, shares };
+    });
+};
+
+export const genreShareByDecade = (titles: Title[], genres: string[], t: Messages): GenreSharePoint[] =>
+  sharesByGroup(
+    titles,
+    genres,
+    title => (title.year !== null ? String(Math.floor(title.year / 10) * 10) : null),
+    t.decade
+  );
+
+// How much of what you rated each year belonged to each genre.
+export const genreTrendByYearRated = (titles: Title[], genres: string[]): GenreSharePoint[] =>
+  sharesByGroup(
+    titles,
+    genres,
+    title => (title.dateRated ? periodKey(title.dateRated, 'year') : null),
+    year => year
+  );
+
+export const genreCooccurrence = (titles: Title[], genres: string[]): GenreCooccurrence => {
+  const indexOf = new Map(genres.map((genre, index) => [genre, index]));
+  const counts = genres.map(() => genres.map(() => 0));
+  titles.forEach(title => {
+    const indexes = title.genres.map(genre => indexOf.get(genre)).filter((index): index is number => index !== undefined);
+    indexes.forEach(i => indexes.forEach(j => counts[i][j]++));
+  });
+  return { genres, counts };
+};
@@ -0,0 +1,85 @@
+import { Locale, TitleType } from '../types';
+import sv, { Messages } from '../locales/sv';
+import en from '../locales/en';
+
+export type { Messages };
+
+export const MESSAGES: { [locale in Locale]: Messages } = { sv, en };
+
+export const LOCALES = Object.keys(MESSAGES) as Locale[];
+
+const STORAGE_KEY = 'locale';
+
+export const isLocale = (value: string | null | undefined): value is Locale => !!value && value in MESSAGES;
+
+// The saved choice wins; otherwise the first of the browser's languages we have messages for.
+// Swedish is the fallback, as the app was Swedish-only before.
+export const detectLocale = (): Locale => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    if (isLocale(saved)) return saved;
+  } catch {
+    // Storage can be unavailable, e.g. with cookies blocked; fall through to the browser.
+  }
+  const languages = typeof navigator !== 'undefined' ? navigator.languages ?? [navigator.language] : [];
+  return languages.map(language => language.split('-')[0].toLowerCase()).find(isLocale) ?? 'sv';
+};
+
+export const saveLocale = (locale: Locale) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, locale);
+  } catch (err) {
+    console.warn('Could not save the language choice', err);
+  }
+};
+
+const collators = new Map<string, Intl.Collator>();
+
+// Cached because sorting large lists builds many comparisons. Numeric so "Alien 2" sorts before "Alien 10".
+export const collatorFor = (languageTag: string): Intl.Collator => {
+  let collator = collators.get(languageTag);
+  if (!collator) {
+    collator = new Intl.Collator(languageTag, { numeric: true });
+    collators.set(languageTag, collator);
+  }
+  return collator;
+};
+
+export const genreLabel = (t: Messages, genre: string) => t.genres[genre] || genre;
+
+// A genre or title type under every name it has in any language, so searches match whichever
+// language the user types in.
+export const genreNames = (genre: string) => [genre, ...LOCALES.map(locale => genreLabel(MESSAGES[locale], genre))];
+
+export const titleTypeNames = (type: TitleType) => [type, ...LOCALES.map(locale => MESSAGES[locale].titleTypes[type])];
+
+export interface Formatters {
+  number: (value: number, fractionDigits?: number) => string;
+  // Empty for a missing date, as in the list where Date Rated is optional.
+  date: (date: Date | null) => string;
+  dateTime: (date: Date) => string;
+  compare: (a: string, b: string) => number;
+}
+
+export const createFormatters = (t: Messages): Formatters => {
+  const numberFormats = new Map<number | undefined, Intl.NumberFormat>();
+  const dateFormat = new Intl.DateTimeFormat(t.languageTag, t.dateFormat);
+  const dateTimeFormat = new Intl.DateTimeFormat(t.languageTag, { dateStyle: 'short', timeStyle: 'short' });
+  const collator = collatorFor(t.languageTag);
+
+  return {
+    number: (value, fractionDigits) => {
+      let format = numberFormats.get(fractionDigits);
+      if (!format) {
+        format = new Intl.NumberFormat(t.languageTag, fractionDigits === undefined
+          ? undefined
+          : { minimumFractionDigits: fractionDigits, maximumFractionDigits: fractionDigits });
+        numberFormats.set(fractionDigits, format);
+      }
+      return format.format(value);
+    },
+    date: date => (date ? dateFormat.format(date) : ''),
+    dateTime: date => dateTimeFormat.format(date),
+    compare: collator.compare,
+  };
+};
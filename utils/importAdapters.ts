@@ -0,0 +1,259 @@
+import { CsvParseResult, CsvRow, IMDbEntry, ImportFormat } from '../types';
+import { parseCSV, parseCSVFile, ParseFileOptions } from './csvParser';
+import { Messages } from './i18n';
+
+export const IMPORT_FORMAT_LABELS: { [format in ImportFormat]: string } = {
+  imdb: 'IMDb',
+  letterboxd: 'Letterboxd',
+  trakt: 'Trakt',
+  criticker: 'Criticker',
+};
+
+// Enough of the file to see its header row, or the first keys of a JSON or XML export.
+const SAMPLE_SIZE = 4 * 1024;
+
+interface ImportAdapter {
+  format: ImportFormat;
+  // True when the start of the file carries this site's signature; header is the sample's
+  // first line read as CSV.
+  detect: (sample: string, header: string[]) => boolean;
+  // Reads the whole file into rows keyed by IMDb's column names.
+  // t words the errors thrown for files that cannot be read.
+  read: (file: Blob, options: ParseFileOptions, t: Messages) => Promise<CsvParseResult>;
+}
+
+const imdbUrl = (id: string) => `https://www.imdb.com/title/${id}/`;
+
+// YYYY-MM-DD in local time, from ISO timestamps or "YYYY-MM-DD hh:mm:ss".
+const toDateColumn = (value: string | undefined): string => {
+  if (!value) return '';
+  const plain = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:\s|$)/);
+  if (plain) return plain[1];
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return '';
+  const pad = (part: number) => String(part).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
+
+// Scales a rating onto IMDb's whole numbers from 1 to 10.
+const scaleRating = (value: string | number | undefined | null, scale: number): string => {
+  if (value === undefined || value === null || String(value).trim() === '') return '';
+  const rating = Number(String(value).replace(',', '.'));
+  if (isNaN(rating)) return '';
+  return String(Math.min(10, Math.max(1, Math.round(rating * scale))));
+};
+
+const isLater = (row: CsvRow, current: CsvRow | undefined) =>
+  !current || row.values['Date Rated'] >= current.values['Date Rated'];
+
+// Logs and histories list a title once per viewing; only the latest entry is kept so each
+// title appears once, as it does in IMDb's exports. A rewatch logged without a rating keeps
+// the rating from the latest viewing that has one.
+const latestPerTitle = (rows: CsvRow[]): CsvRow[] => {
+  const latest = new Map<string, CsvRow>();
+  const latestRated = new Map<string, CsvRow>();
+  rows.forEach(row => {
+    const id = row.values.Const;
+    if (isLater(row, latest.get(id))) latest.set(id, row);
+    if (row.values['Your Rating'] && isLater(row, latestRated.get(id))) latestRated.set(id, row);
+  });
+  return Array.from(latest.values())
+    .map(row => {
+      const rated = latestRated.get(row.values.Const);
+      return row.values['Your Rating'] || !rated ? row : { ...row, values: { ...row.values, 'Your Rating': rated.values['Your Rating'] } };
+    })
+    .sort((a, b) => a.line - b.line);
+};
+
+const toParseResult = (header: string[], rows: CsvRow[], recordCount: number): CsvParseResult => {
+  const kept = latestPerTitle(rows);
+  return {
+    header,
+    rows: kept,
+    delimiter: ',',
+    diagnostics: [],
+    recordCount,
+    mergedRows: rows.length - kept.length,
+  };
+};
+
+const imdbAdapter: ImportAdapter = {
+  format: 'imdb',
+  detect: (_sample, header) => header.includes('Const') && header.includes('Title'),
+  read: (file, options) => parseCSVFile(file, options),
+};
+
+// For entries without an id of their own, so that every viewing of a title still gets the same one.
+const nameAndYearId = (site: string, name: string, year: string) =>
+  `${site}-${name.trim().toLowerCase().replace(/\s+/g, ' ')}-${year.trim()}`;
+
+// Letterboxd's ratings.csv and diary.csv link to Letterboxd's own pages and rate in half
+// stars; its import format, which this app also exports, carries the IMDb id instead.
+const letterboxdAdapter: ImportAdapter = {
+  format: 'letterboxd',
+  detect: (_sample, header) =>
+    (header.includes('Letterboxd URI') && header.includes('Name')) || (header.includes('imdbID') && header.includes('Title')),
+  read: async (file, options) => {
+    const parsed = await parseCSVFile(file, options);
+    const hasImdbId = parsed.header.includes('imdbID');
+    // Letterboxd's own exports have no id for the film itself: in diary.csv the URI points at
+    // the diary entry, so a rewatch has a URI of its own. Name and year identify the film instead.
+    const rows = parsed.rows.map(({ line, values }) => {
+      const title = values.Name ?? values.Title ?? '';
+      const entry: IMDbEntry = {
+        Const: hasImdbId ? values.imdbID ?? '' : nameAndYearId('letterboxd', title, values.Year ?? ''),
+        Title: title,
+        URL: hasImdbId && values.imdbID ? imdbUrl(values.imdbID) : values['Letterboxd URI'] ?? '',
+        'Title Type': 'Movie',
+        Year: values.Year ?? '',
+        'Your Rating': values.Rating10 ? scaleRating(values.Rating10, 1) : scaleRating(values.Rating, 2),
+        'Date Rated': toDateColumn(values['Watched Date'] || values.WatchedDate || values.Date),
+      };
+      return { line, values: entry };
+    });
+    return {
+      ...toParseResult(['Const', 'Title', 'URL', 'Title Type', 'Year', 'Your Rating', 'Date Rated'], rows, parsed.recordCount),
+      diagnostics: parsed.diagnostics,
+    };
+  },
+};
+
+interface TraktIds {
+  trakt?: number;
+  slug?: string;
+  imdb?: string | null;
+}
+
+interface TraktMedia {
+  title?: string;
+  year?: number | null;
+  ids?: TraktIds;
+}
+
+interface TraktEntry {
+  type?: string;
+  rating?: number;
+  rated_at?: string;
+  watched_at?: string;
+  movie?: TraktMedia;
+  show?: TraktMedia;
+  season?: { number?: number; ids?: TraktIds };
+  episode?: TraktMedia & { season?: number; number?: number };
+}
+
+const TRAKT_TITLE_TYPES: { [type: string]: string } = {
+  movie: 'Movie',
+  show: 'TV Series',
+  season: 'TV Series',
+  episode: 'TV Episode',
+};
+
+// Seasons and episodes are named after their show, and take its year when they have none.
+// Entries with neither an IMDb nor a Trakt id fall back to their slug, then to title and year.
+const traktEntry = (entry: TraktEntry): IMDbEntry => {
+  const type = entry.type ?? (entry.movie ? 'movie' : entry.episode ? 'episode' : entry.season ? 'season' : 'show');
+  const show = entry.show ?? {};
+  const item: TraktMedia =
+    type === 'movie' ? entry.movie ?? {} : type === 'episode' ? entry.episode ?? {} : type === 'season' ? entry.season ?? {} : show;
+  const ids = item.ids ?? {};
+  const title =
+    type === 'episode'
+      ? `${show.title ?? ''}: ${item.title ?? `S${entry.episode?.season}E${entry.episode?.number}`}`
+      : type === 'season'
+        ? `${show.title ?? ''}: S${entry.season?.number ?? ''}`
+        : item.title ?? '';
+  const year = String(item.year ?? show.year ?? '');
+  const slugPath = type === 'movie' ? `movies/${ids.slug ?? ids.trakt}` : `shows/${show.ids?.slug ?? show.ids?.trakt}`;
+  const traktId = ids.trakt ?? ids.slug;
+  return {
+    Const: ids.imdb || (traktId !== undefined ? `trakt-${type}-${traktId}` : nameAndYearId(`trakt-${type}`, title, year)),
+    Title: title,
+    URL: ids.imdb ? imdbUrl(ids.imdb) : `https://trakt.tv/${slugPath}`,
+    'Title Type': TRAKT_TITLE_TYPES[type] ?? type,
+    Year: year,
+    'Your Rating': scaleRating(entry.rating, 1),
+    'Date Rated': toDateColumn(entry.rated_at ?? entry.watched_at),
+  };
+};
+
+// Trakt exports ratings and watch history as JSON arrays; ratings already use 1–10.
+const traktAdapter: ImportAdapter = {
+  format: 'trakt',
+  detect: sample => /^\s*\[/.test(sample) && /"ids"\s*:/.test(sample) && /"(rated_at|watched_at)"\s*:/.test(sample),
+  read: async (file, options, t) => {
+    let entries: TraktEntry[];
+    try {
+      entries = JSON.parse(await file.text());
+    } catch {
+      throw new Error(t.errors.invalidTraktJson);
+    }
+    options.onProgress?.(1);
+    if (!Array.isArray(entries)) throw new Error(t.errors.traktNotAList);
+    const rows = entries.map((entry, index) => ({ line: index + 1, values: traktEntry(entry) }));
+    // History without ratings is read like a watchlist.
+    const header = ['Const', 'Title', 'URL', 'Title Type', 'Year', 'Date Rated'];
+    if (entries.some(entry => entry.rating !== undefined)) header.push('Your Rating');
+    return toParseResult(header, rows, entries.length);
+  },
+};
+
+const childText = (element: Element, tag: string) => element.getElementsByTagName(tag)[0]?.textContent?.trim() ?? '';
+
+// Criticker scores out of 100 and puts the year in the film's name, e.g. "Alien (1979)".
+const critickerEntry = (film: Element): IMDbEntry => {
+  const name = childText(film, 'filmname');
+  const nameMatch = name.match(/^(.*?)\s*\((\d{4})\)$/);
+  const imdbId = childText(film, 'imdbid');
+  return {
+    Const: imdbId || `criticker-${childText(film, 'filmid') || name}`,
+    Title: nameMatch ? nameMatch[1] : name,
+    URL: imdbId ? imdbUrl(imdbId) : childText(film, 'filmlink'),
+    'Title Type': 'Movie',
+    Year: childText(film, 'year') || (nameMatch ? nameMatch[2] : ''),
+    'Your Rating': scaleRating(childText(film, 'rating') || childText(film, 'score'), 0.1),
+    'Date Rated': toDateColumn(childText(film, 'datetime') || childText(film, 'date')),
+  };
+};
+
+const critickerAdapter: ImportAdapter = {
+  format: 'criticker',
+  detect: sample => /^\s*(<\?xml[^>]*>\s*)?</.test(sample) && /<film>/.test(sample) && /<filmname>/.test(sample),
+  read: async (file, options, t) => {
+    const xml = new DOMParser().parseFromString(await file.text(), 'application/xml');
+    options.onProgress?.(1);
+    if (xml.getElementsByTagName('parsererror').length > 0) {
+      throw new Error(t.errors.invalidCritickerXml);
+    }
+    const films = Array.from(xml.getElementsByTagName('film'));
+    const rows = films.map((film, index) => ({ line: index + 1, values: critickerEntry(film) }));
+    return toParseResult(['Const', 'Title', 'URL', 'Title Type', 'Year', 'Your Rating', 'Date Rated'], rows, films.length);
+  },
+};
+
+// Checked in order; IMDb comes first and is also the fallback, so a file that matches no
+// signature gets IMDb's report of missing columns.
+const ADAPTERS: ImportAdapter[] = [imdbAdapter, letterboxdAdapter, traktAdapter, critickerAdapter];
+
+const IMPORT_EXTENSIONS = ['.csv', '.json', '.xml'];
+const IMPORT_MIME_TYPES = ['text/csv', 'application/json', 'application/xml', 'text/xml'];
+
+// IMDb and Letterboxd export CSV, Trakt JSON and Criticker XML.
+export const isImportableFile = (file: File) =>
+  IMPORT_MIME_TYPES.includes(file.type) || IMPORT_EXTENSIONS.some(extension => file.name.toLowerCase().endsWith(extension));
+
+export const detectImportFormat = (sample: string): ImportFormat => {
+  const text = sample.charCodeAt(0) === 0xFEFF ? sample.substring(1) : sample;
+  const header = parseCSV(text.split(/\r?\n/, 1)[0]).header;
+  return (ADAPTERS.find(adapter => adapter.detect(text, header)) ?? imdbAdapter).format;
+};
+
+// Detects which site the file comes from and reads it into IMDb-shaped rows.
+export const readImportFile = async (
+  file: Blob,
+  t: Messages,
+  options: ParseFileOptions = {}
+): Promise<{ format: ImportFormat; parsed: CsvParseResult }> => {
+  const format = detectImportFormat(await file.slice(0, SAMPLE_SIZE).text());
+  const adapter = ADAPTERS.find(candidate => candidate.format === format)!;
+  return { format, parsed: await adapter.read(file, options, t) };
+};
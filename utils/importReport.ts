@@ -0,0 +1,75 @@
+import { CsvParseResult, ExportKind, ImportFormat, ImportReport, SkippedRow, Title, TitleType } from '../types';
+import { normalizeRows } from './normalizeTitles';
+
+export const REQUIRED_COLUMNS = ['Const', 'Title', 'Year', 'Your Rating', 'URL'];
+// Watchlist and custom-list exports have no ratings of their own.
+export const LIST_REQUIRED_COLUMNS = REQUIRED_COLUMNS.filter(col => col !== 'Your Rating');
+export const OPTIONAL_COLUMNS = ['Genres', 'Directors', 'Cast', 'Date Rated'];
+
+export const MIN_YEAR = 1800;
+export const MAX_YEAR = 2100;
+
+const filterValidTitles = (titles: Title[]) => {
+  const kept: Title[] = [];
+  const skippedRows: SkippedRow[] = [];
+  const titleTypeCounts: { [type in TitleType]?: number } = {};
+
+  titles.forEach(title => {
+    if (title.year === null) {
+      skippedRows.push({ line: title.line, reason: 'missing_year', title: title.title });
+    } else if (title.year <= MIN_YEAR || title.year >= MAX_YEAR) {
+      skippedRows.push({ line: title.line, reason: 'year_out_of_range', title: title.title, year: title.year });
+    } else {
+      kept.push(title);
+      titleTypeCounts[title.titleType] = (titleTypeCounts[title.titleType] || 0) + 1;
+    }
+  });
+
+  return { kept, skippedRows, titleTypeCounts };
+};
+
+// List exports are recognised by IMDb's list columns, or by having no "Your Rating" column at all.
+export const detectExportKind = (header: string[]): ExportKind => {
+  const hasListColumns = header.includes('Position') && header.includes('Created');
+  return hasListColumns || !header.includes('Your Rating') ? 'list' : 'ratings';
+};
+
+// Normalizes and filters a parsed file, recording every row that did not make it through and why.
+// Other sites' files are mapped onto IMDb's columns by their adapter before they get here.
+export const importTitles = (
+  fileName: string,
+  parsed: CsvParseResult,
+  format: ImportFormat = 'imdb'
+): { titles: Title[]; report: ImportReport } => {
+  const { header, rows, diagnostics, recordCount, mergedRows = 0 } = parsed;
+  const hasTitleType = header.includes('Title Type') || header.includes('TitleType');
+  const exportKind = detectExportKind(header);
+  const requiredColumns = exportKind === 'list' ? LIST_REQUIRED_COLUMNS : REQUIRED_COLUMNS;
+  const missingRequiredColumns = requiredColumns.filter(col => !header.includes(col));
+  if (!hasTitleType) missingRequiredColumns.push('Title Type');
+
+  const { kept, skippedRows, titleTypeCounts } = missingRequiredColumns.length > 0
+    ? { kept: [], skippedRows: [], titleTypeCounts: {} }
+    : filterValidTitles(normalizeRows(rows, fileName));
+
+  const parseErrors: SkippedRow[] = diagnostics
+    .filter(diagnostic => diagnostic.severity === 'error')
+    .map(({ line, code, fieldCount, expectedFieldCount }) => ({ line, reason: code, fieldCount, expectedFieldCount }));
+
+  const report: ImportReport = {
+    fileName,
+    format,
+    exportKind,
+    totalRows: recordCount,
+    parsedRows: rows.length + mergedRows,
+    mergedRows,
+    importedRows: kept.length,
+    skippedRows: [...parseErrors, ...skippedRows].sort((a, b) => a.line - b.line),
+    titleTypeCounts,
+    missingRequiredColumns,
+    missingOptionalColumns: OPTIONAL_COLUMNS.filter(col => !header.includes(col)),
+    warnings: diagnostics.filter(diagnostic => diagnostic.severity === 'warning'),
+  };
+
+  return { titles: kept, report };
+};
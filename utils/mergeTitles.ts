@@ -0,0 +1,57 @@
+import { ConflictRule, Title } from '../types';
+
+export const CONFLICT_RULES: ConflictRule[] = ['newest', 'highest', 'lowest', 'first_file', 'last_file'];
+
+// Returns true when the incoming title should replace the one already in the library.
+const prefersIncoming = (existing: Title, incoming: Title, rule: ConflictRule): boolean => {
+  switch (rule) {
+    case 'newest':
+      return (incoming.dateRated?.getTime() ?? 0) > (existing.dateRated?.getTime() ?? 0);
+    case 'highest':
+      return (incoming.yourRating ?? 0) > (existing.yourRating ?? 0);
+    case 'lowest':
+      return (incoming.yourRating ?? 0) < (existing.yourRating ?? 0);
+    case 'last_file':
+      return true;
+    case 'first_file':
+    default:
+      return false;
+  }
+};
+
+// Merges titles from several files on Const. Every title keeps the names of all files it came
+// from; when two files rate the same title differently the rule decides which record is kept.
+export const mergeTitleSets = (sets: Title[][], rule: ConflictRule): { titles: Title[]; conflicts: number } => {
+  const merged = new Map<string, Title>();
+  let conflicts = 0;
+
+  sets.forEach(titles => {
+    titles.forEach(incoming => {
+      const existing = merged.get(incoming.id);
+      if (!existing) {
+        merged.set(incoming.id, incoming);
+        return;
+      }
+      const sources = Array.from(new Set([...existing.sources, ...incoming.sources]));
+      let kept = existing;
+      if (existing.yourRating === null) {
+        kept = incoming;
+      } else if (incoming.yourRating !== null && incoming.yourRating !== existing.yourRating) {
+        conflicts++;
+        if (prefersIncoming(existing, incoming, rule)) kept = incoming;
+      }
+      merged.set(incoming.id, { ...kept, sources });
+    });
+  });
+
+  return { titles: Array.from(merged.values()), conflicts };
+};
+
+// Gives files that share a name (e.g. ratings.csv from two accounts) distinct source tags.
+export const uniqueSourceNames = (fileNames: string[]): string[] => {
+  const seen: { [name: string]: number } = {};
+  return fileNames.map(name => {
+    seen[name] = (seen[name] || 0) + 1;
+    return seen[name] > 1 ? `${name} (${seen[name]})` : name;
+  });
+};
@@ -0,0 +1,108 @@
+import { CsvRow, IMDbEntry, Title, TitleType } from '../types';
+
+// Columns that are mapped onto typed Title fields; everything else ends up in metadata.
+const KNOWN_COLUMNS = new Set([
+  'Const',
+  'Title',
+  'Original Title',
+  'URL',
+  'Title Type',
+  'TitleType',
+  'Year',
+  'Your Rating',
+  'IMDb Rating',
+  'Runtime (mins)',
+  'Num Votes',
+  'Release Date',
+  'Date Rated',
+  'Genres',
+  'Directors',
+  'Cast',
+  'Position',
+  'Created',
+]);
+
+// Keys are lower-cased with everything but letters removed, so both "TV Mini Series"
+// from current exports and "tvMiniSeries" from older ones map to the same type.
+const TITLE_TYPES: { [key: string]: TitleType } = {
+  movie: 'movie',
+  feature: 'movie',
+  tvseries: 'tvSeries',
+  tvminiseries: 'tvMiniSeries',
+  tvepisode: 'tvEpisode',
+  tvmovie: 'tvMovie',
+  tvspecial: 'tvSpecial',
+  short: 'short',
+  tvshort: 'short',
+  video: 'video',
+  videogame: 'videoGame',
+  musicvideo: 'musicVideo',
+  podcastseries: 'podcastSeries',
+  podcastepisode: 'podcastEpisode',
+};
+
+export const parseTitleType = (value: string | undefined): TitleType => {
+  if (!value) return 'other';
+  return TITLE_TYPES[value.toLowerCase().replace(/[^a-z]/g, '')] ?? 'other';
+};
+
+const parseInteger = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const cleaned = value.replace(/[\s,]/g, '');
+  if (!/^-?\d+$/.test(cleaned)) return null;
+  return parseInt(cleaned, 10);
+};
+
+// Accepts both "7.8" and the decimal comma used by semicolon-separated exports.
+const parseDecimal = (value: string | undefined): number | null => {
+  if (!value) return null;
+  const parsed = Number(value.trim().replace(',', '.'));
+  return value.trim() === '' || isNaN(parsed) ? null : parsed;
+};
+
+// IMDb writes dates as YYYY-MM-DD; those are read as local dates so they don't shift a day
+// in timezones west of UTC. Anything else falls back to the built-in parser.
+const parseDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = match
+    ? new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10))
+    : new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const splitList = (value: string | undefined): string[] =>
+  value ? value.split(/,\s*/).map(item => item.trim()).filter(item => item) : [];
+
+export const normalizeEntry = (entry: IMDbEntry, line: number, source: string): Title => {
+  const metadata: { [column: string]: string } = {};
+  Object.keys(entry).forEach(column => {
+    if (!KNOWN_COLUMNS.has(column)) metadata[column] = entry[column];
+  });
+
+  return {
+    id: entry.Const ?? '',
+    title: entry.Title ?? '',
+    originalTitle: entry['Original Title'] || null,
+    url: entry.URL ?? '',
+    titleType: parseTitleType(entry['Title Type'] ?? entry['TitleType']),
+    year: parseInteger(entry.Year),
+    yourRating: parseInteger(entry['Your Rating']),
+    imdbRating: parseDecimal(entry['IMDb Rating']),
+    runtimeMinutes: parseInteger(entry['Runtime (mins)']),
+    numVotes: parseInteger(entry['Num Votes']),
+    releaseDate: parseDate(entry['Release Date']),
+    dateRated: parseDate(entry['Date Rated']),
+    created: parseDate(entry.Created),
+    position: parseInteger(entry.Position),
+    genres: splitList(entry.Genres),
+    directors: splitList(entry.Directors),
+    cast: splitList(entry.Cast),
+    line,
+    sources: [source],
+    metadata,
+  };
+};
+
+export const normalizeRows = (rows: CsvRow[], source: string): Title[] =>
+  rows.map(row => normalizeEntry(row.values, row.line, source));
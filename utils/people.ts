@@ -0,0 +1,57 @@
+import { PeopleSort, PersonRole, PersonStats, Title } from '../types';
+import { collatorFor } from './i18n';
+
+const peopleOf = (title: Title, role: PersonRole) => (role === 'director' ? title.directors : title.cast);
+
+// Higher rating wins; IMDb's rating breaks ties so the pick is stable.
+const isBetter = (candidate: Title, current: Title) =>
+  (candidate.yourRating ?? 0) - (current.yourRating ?? 0) || (candidate.imdbRating ?? 0) - (current.imdbRating ?? 0);
+
+export const buildPeopleStats = (titles: Title[], role: PersonRole): PersonStats[] => {
+  const people = new Map<string, PersonStats & { ratingSum: number; ratingCount: number }>();
+  titles.forEach(title => {
+    // A name listed twice on the same title still counts once.
+    new Set(peopleOf(title, role)).forEach(name => {
+      let person = people.get(name);
+      if (!person) {
+        person = { name, count: 0, averageRating: null, best: null, worst: null, firstYear: null, lastYear: null, ratingSum: 0, ratingCount: 0 };
+        people.set(name, person);
+      }
+      person.count++;
+      if (title.year !== null) {
+        if (person.firstYear === null || title.year < person.firstYear) person.firstYear = title.year;
+        if (person.lastYear === null || title.year > person.lastYear) person.lastYear = title.year;
+      }
+      if (title.yourRating !== null) {
+        person.ratingSum += title.yourRating;
+        person.ratingCount++;
+        if (!person.best || isBetter(title, person.best) > 0) person.best = title;
+        if (!person.worst || isBetter(title, person.worst) < 0) person.worst = title;
+      }
+    });
+  });
+
+  return Array.from(people.values()).map(({ ratingSum, ratingCount, ...person }) => ({
+    ...person,
+    averageRating: ratingCount > 0 ? ratingSum / ratingCount : null,
+  }));
+};
+
+export const PEOPLE_SORTS: PeopleSort[] = ['count', 'averageRating', 'name', 'lastYear'];
+
+export const rankPeople = (people: PersonStats[], sort: PeopleSort, minTitles: number, languageTag: string): PersonStats[] =>
+  people
+    .filter(person => person.count >= minTitles)
+    .sort((a, b) => {
+      switch (sort) {
+        case 'averageRating':
+          return (b.averageRating ?? 0) - (a.averageRating ?? 0) || b.count - a.count;
+        case 'name':
+          return collatorFor(languageTag).compare(a.name, b.name);
+        case 'lastYear':
+          return (b.lastYear ?? 0) - (a.lastYear ?? 0) || b.count - a.count;
+        case 'count':
+        default:
+          return b.count - a.count || (b.averageRating ?? 0) - (a.averageRating ?? 0);
+      }
+    });
@@ -0,0 +1,66 @@
+import { DeviationGroup, Title } from '../types';
+import { genreLabel, Messages } from './i18n';
+
+// A title with a million votes scores 0 and one with a single vote scores 100.
+const OBSCURITY_LOG_CEILING = 6;
+
+export type ComparedTitle = Title & { yourRating: number; imdbRating: number };
+
+export const comparableTitles = (titles: Title[]): ComparedTitle[] =>
+  titles.filter((title): title is ComparedTitle => title.yourRating !== null && title.imdbRating !== null);
+
+export const deviation = (title: ComparedTitle) => title.yourRating - title.imdbRating;
+
+export const averageDeviation = (titles: ComparedTitle[]): number | null =>
+  titles.length === 0 ? null : titles.reduce((sum, title) => sum + deviation(title), 0) / titles.length;
+
+const groupDeviations = (
+  titles: ComparedTitle[],
+  keysOf: (title: ComparedTitle) => string[],
+  labelOf: (key: string) => string
+): DeviationGroup[] => {
+  const groups = new Map<string, { count: number; sum: number }>();
+  titles.forEach(title => {
+    keysOf(title).forEach(key => {
+      const group = groups.get(key) || { count: 0, sum: 0 };
+      group.count++;
+      group.sum += deviation(title);
+      groups.set(key, group);
+    });
+  });
+  return Array.from(groups.entries()).map(([key, group]) => ({
+    key,
+    label: labelOf(key),
+    count: group.count,
+    averageDeviation: group.sum / group.count,
+  }));
+};
+
+export const deviationByGenre = (titles: ComparedTitle[], t: Messages): DeviationGroup[] =>
+  groupDeviations(titles, title => title.genres, genre => genreLabel(t, genre))
+    .sort((a, b) => b.averageDeviation - a.averageDeviation);
+
+export const deviationByDecade = (titles: ComparedTitle[], t: Messages): DeviationGroup[] =>
+  groupDeviations(
+    titles,
+    title => (title.year !== null ? [String(Math.floor(title.year / 10) * 10)] : []),
+    t.decade
+  ).sort((a, b) => Number(a.key) - Number(b.key));
+
+// Titles where you rated lower than IMDb, largest gap first.
+export const mostOverrated = (titles: ComparedTitle[], limit: number) =>
+  [...titles].sort((a, b) => deviation(a) - deviation(b)).filter(title => deviation(title) < 0).slice(0, limit);
+
+// Titles where you rated higher than IMDb, largest gap first.
+export const mostUnderrated = (titles: ComparedTitle[], limit: number) =>
+  [...titles].sort((a, b) => deviation(b) - deviation(a)).filter(title => deviation(title) > 0).slice(0, limit);
+
+export const obscurity = (numVotes: number) =>
+  Math.max(0, Math.min(100, 100 * (1 - Math.log10(Math.max(1, numVotes)) / OBSCURITY_LOG_CEILING)));
+
+// Mean obscurity over every title with a vote count, on a 0–100 scale.
+export const obscurityScore = (titles: Title[]): number | null => {
+  const votes = titles.map(title => title.numVotes).filter((count): count is number => count !== null);
+  if (votes.length === 0) return null;
+  return votes.reduce((sum, count) => sum + obscurity(count), 0) / votes.length;
+};
@@ -0,0 +1,222 @@
+import { Title } from '../types';
+
+// Letters that Unicode decomposition leaves intact but people still type without the accent.
+const FOLDED_LETTERS: { [letter: string]: string } = { 'ø': 'o', 'æ': 'ae', 'œ': 'oe', 'ß': 'ss', 'ł': 'l', 'đ': 'd', 'ð': 'd', 'þ': 'th', 'ı': 'i' };
+
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+// Lower-cases and strips diacritics, so "Amélie" and "amelie" compare equal.
+export const normalizeText = (text: string) =>
+  text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[øæœßłđðþı]/g, letter => FOLDED_LETTERS[letter]);
+
+export const tokenizeText = (text: string): string[] => normalizeText(text).match(WORD_PATTERN) || [];
+
+// Weight of a match by the field it was found in; the order also gives each field its code.
+const FIELD_WEIGHTS = [3, 3, 2, 1];
+const TITLE_FIELD = 0;
+const ORIGINAL_TITLE_FIELD = 1;
+const DIRECTOR_FIELD = 2;
+const CAST_FIELD = 3;
+
+const EXACT_MATCH = 1;
+const PREFIX_MATCH = 0.8;
+const TYPO_MATCH = 0.6;
+// A single letter is what the search bar holds after the first keystroke: it matches the start of
+// words, below any longer match, and only up to a limit so it stays quick on big exports.
+const LETTER_PREFIX_MATCH = 0.3;
+const LETTER_PREFIX_LIMIT = 2000;
+const EXACT_TITLE_BONUS = 5;
+const TITLE_PREFIX_BONUS = 2;
+
+// Edit distance counting swapped neighbours as one edit, giving up once it exceeds maxDistance.
+const editDistance = (a: string, b: string, maxDistance: number): number => {
+  if (Math.abs(a.length - b.length) > maxDistance) return maxDistance + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, beforePrevious[j - 2] + 1);
+      }
+      current.push(value);
+      if (value < rowMin) rowMin = value;
+    }
+    if (rowMin > maxDistance) return maxDistance + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// One bit per letter a-z present; each edit can change at most two bits, which rules out
+// most of the vocabulary before the edit distance is computed.
+const letterMask = (token: string) => {
+  let mask = 0;
+  for (let i = 0; i < token.length; i++) {
+    const code = token.charCodeAt(i) - 97;
+    if (code >= 0 && code < 26) mask |= 1 << code;
+  }
+  return mask;
+};
+
+const countBits = (value: number) => {
+  let count = 0;
+  for (let rest = value; rest !== 0; rest &= rest - 1) count++;
+  return count;
+};
+
+const allowedTypos = (word: string) => (word.length >= 8 ? 2 : word.length >= 4 ? 1 : 0);
+
+export interface SearchHit {
+  title: Title;
+  score: number;
+}
+
+export interface SearchOutcome {
+  hits: SearchHit[];
+  // Indexed words that matched, for highlighting.
+  matchedTokens: Set<string>;
+}
+
+export interface TitleSearchIndex {
+  search: (query: string) => SearchOutcome;
+}
+
+// Builds an inverted index over Title, Original Title, Directors and Cast. Every query word
+// must match a title, exactly, as a prefix or with a typo or two depending on its length.
+export const createSearchIndex = (titles: Title[]): TitleSearchIndex => {
+  // Postings are encoded as titleIndex * 4 + field to keep the index compact on big exports.
+  const postings = new Map<string, number[]>();
+  const normalizedTitles: string[] = [];
+
+  const addField = (titleIndex: number, field: number, text: string) => {
+    tokenizeText(text).forEach(token => {
+      let list = postings.get(token);
+      if (!list) {
+        list = [];
+        postings.set(token, list);
+      }
+      list.push(titleIndex * 4 + field);
+    });
+  };
+
+  titles.forEach((title, index) => {
+    normalizedTitles.push(normalizeText(title.title));
+    addField(index, TITLE_FIELD, title.title);
+    if (title.originalTitle && title.originalTitle !== title.title) addField(index, ORIGINAL_TITLE_FIELD, title.originalTitle);
+    title.directors.forEach(name => addField(index, DIRECTOR_FIELD, name));
+    title.cast.forEach(name => addField(index, CAST_FIELD, name));
+  });
+
+  const vocabulary = Array.from(postings.keys()).sort();
+  const byLength = new Map<number, { tokens: string[]; masks: number[] }>();
+  vocabulary.forEach(token => {
+    let bucket = byLength.get(token.length);
+    if (!bucket) {
+      bucket = { tokens: [], masks: [] };
+      byLength.set(token.length, bucket);
+    }
+    bucket.tokens.push(token);
+    bucket.masks.push(letterMask(token));
+  });
+
+  // First vocabulary position not sorting before the prefix.
+  const lowerBound = (prefix: string) => {
+    let low = 0;
+    let high = vocabulary.length;
+    while (low < high) {
+      const middle = (low + high) >> 1;
+      if (vocabulary[middle] < prefix) low = middle + 1;
+      else high = middle;
+    }
+    return low;
+  };
+
+  const expandWord = (word: string): Map<string, number> => {
+    const candidates = new Map<string, number>();
+    if (postings.has(word)) candidates.set(word, EXACT_MATCH);
+    const [prefixQuality, prefixLimit] = word.length >= 2 ? [PREFIX_MATCH, Infinity] : [LETTER_PREFIX_MATCH, LETTER_PREFIX_LIMIT];
+    const start = lowerBound(word);
+    for (let i = start; i < vocabulary.length && i - start < prefixLimit && vocabulary[i].startsWith(word); i++) {
+      if (!candidates.has(vocabulary[i])) candidates.set(vocabulary[i], prefixQuality);
+    }
+    const maxTypos = allowedTypos(word);
+    const wordMask = letterMask(word);
+    for (let length = word.length - maxTypos; maxTypos > 0 && length <= word.length + maxTypos; length++) {
+      const bucket = byLength.get(length);
+      if (!bucket) continue;
+      for (let i = 0; i < bucket.tokens.length; i++) {
+        const token = bucket.tokens[i];
+        if (countBits(bucket.masks[i] ^ wordMask) > 2 * maxTypos || candidates.has(token)) continue;
+        const distance = editDistance(word, token, maxTypos);
+        if (distance <= maxTypos) candidates.set(token, TYPO_MATCH - 0.15 * (distance - 1));
+      }
+    }
+    return candidates;
+  };
+
+  const search = (query: string): SearchOutcome => {
+    const words = Array.from(new Set(tokenizeText(query)));
+    const matchedTokens = new Set<string>();
+    if (words.length === 0) return { hits: [], matchedTokens };
+
+    let scores: Map<number, number> | null = null;
+    for (const word of words) {
+      const wordScores = new Map<number, number>();
+      expandWord(word).forEach((quality, token) => {
+        let used = false;
+        postings.get(token)!.forEach(posting => {
+          const titleIndex = posting >> 2;
+          if (scores && !scores.has(titleIndex)) return;
+          const score = quality * FIELD_WEIGHTS[posting & 3];
+          if (score > (wordScores.get(titleIndex) || 0)) wordScores.set(titleIndex, score);
+          used = true;
+        });
+        if (used) matchedTokens.add(token);
+      });
+      if (scores) wordScores.forEach((score, titleIndex) => wordScores.set(titleIndex, score + scores!.get(titleIndex)!));
+      scores = wordScores;
+      if (scores.size === 0) break;
+    }
+
+    const phrase = normalizeText(query).trim();
+    const hits = Array.from(scores!.entries()).map(([titleIndex, score]) => {
+      const normalized = normalizedTitles[titleIndex];
+      const bonus = normalized === phrase ? EXACT_TITLE_BONUS : normalized.startsWith(phrase) ? TITLE_PREFIX_BONUS : 0;
+      return { title: titles[titleIndex], score: score + bonus };
+    });
+    hits.sort((a, b) => b.score - a.score || (b.title.numVotes ?? 0) - (a.title.numVotes ?? 0) || a.title.title.localeCompare(b.title.title));
+    return { hits, matchedTokens };
+  };
+
+  return { search };
+};
+
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+// Splits text into runs, marking the words whose normalized form is one of the tokens.
+export const highlightSegments = (text: string, tokens: Set<string>): HighlightSegment[] => {
+  const segments: HighlightSegment[] = [];
+  let last = 0;
+  for (const match of text.matchAll(WORD_PATTERN)) {
+    const start = match.index ?? 0;
+    const words = tokenizeText(match[0]);
+    if (words.length === 0 || !words.every(word => tokens.has(word))) continue;
+    if (start > last) segments.push({ text: text.slice(last, start), match: false });
+    segments.push({ text: match[0], match: true });
+    last = start + match[0].length;
+  }
+  if (last < text.length) segments.push({ text: text.slice(last), match: false });
+  return segments;
+};
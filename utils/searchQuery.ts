@@ -0,0 +1,288 @@
+import { NumberRange, ParsedSearchQuery, SearchField, SearchQueryError, SearchSuggestion, SearchTerm, Title, TitleType } from '../types';
+import { genreLabel, genreNames, Messages, titleTypeNames } from './i18n';
+import { normalizeText, TitleSearchIndex } from './searchIndex';
+
+export const SEARCH_FIELDS: SearchField[] = ['title', 'director', 'cast', 'genre', 'type', 'year', 'rating', 'imdb', 'runtime'];
+
+type NumericField = 'year' | 'rating' | 'imdb' | 'runtime';
+
+const NUMERIC_LIMITS: { [field in NumericField]: { min: number; max: number; integer: boolean } } = {
+  year: { min: 1800, max: 2100, integer: true },
+  rating: { min: 1, max: 10, integer: true },
+  imdb: { min: 0, max: 10, integer: false },
+  runtime: { min: 0, max: 10000, integer: false },
+};
+
+const isSearchField = (value: string): value is SearchField => (SEARCH_FIELDS as string[]).includes(value);
+const isNumericField = (field: SearchField): field is NumericField => field in NUMERIC_LIMITS;
+
+interface Token {
+  raw: string;
+  start: number;
+  end: number;
+}
+
+// Splits on whitespace outside double quotes, keeping the offsets for error messages.
+const tokenize = (query: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+    const start = i;
+    let inQuotes = false;
+    while (i < query.length && (inQuotes || !/\s/.test(query[i]))) {
+      if (query[i] === '"') inQuotes = !inQuotes;
+      i++;
+    }
+    tokens.push({ raw: query.slice(start, i), start, end: i });
+  }
+  return tokens;
+};
+
+interface TokenParts {
+  negated: boolean;
+  field: string | null;
+  value: string;
+  // Offset of the value within the token.
+  valueOffset: number;
+}
+
+// A prefix only counts as a field when it comes before any quote, so `"Mission: Impossible"` stays free text.
+const splitToken = (raw: string): TokenParts => {
+  const negated = raw.length > 1 && raw.startsWith('-');
+  const body = negated ? raw.slice(1) : raw;
+  const match = /^([a-zA-Z]+):/.exec(body);
+  if (match) {
+    return { negated, field: match[1].toLowerCase(), value: body.slice(match[0].length), valueOffset: raw.length - body.length + match[0].length };
+  }
+  return { negated, field: null, value: body, valueOffset: raw.length - body.length };
+};
+
+const parseNumber = (text: string) => (text === '' ? NaN : Number(text.replace(',', '.')));
+
+// Accepts `8`, `>=8`, `<90`, `1950..1970`, `1950..`, `..1970` and decimal bounds such as `7.5..9`.
+// The span splits on the first `..`, so a decimal point in either bound is left to the number.
+const parseRange = (value: string, t: Messages): NumberRange | string => {
+  const span = /^(.*?)\.\.(.*)$/.exec(value);
+  if (span) {
+    const min = span[1] === '' ? null : parseNumber(span[1]);
+    const max = span[2] === '' ? null : parseNumber(span[2]);
+    if (min === null && max === null) return t.search.rangeWithoutBounds;
+    if ((min !== null && isNaN(min)) || (max !== null && isNaN(max))) return t.search.invalidRange(value);
+    if (min !== null && max !== null && min > max) return t.search.reversedRange;
+    return { min, max, minInclusive: true, maxInclusive: true };
+  }
+
+  const comparison = /^(>=|<=|>|<|=)?(.*)$/.exec(value)!;
+  const operator = comparison[1] || '=';
+  const number = parseNumber(comparison[2]);
+  if (isNaN(number)) return t.search.invalidNumber(value);
+  switch (operator) {
+    case '>':
+      return { min: number, max: null, minInclusive: false, maxInclusive: true };
+    case '>=':
+      return { min: number, max: null, minInclusive: true, maxInclusive: true };
+    case '<':
+      return { min: null, max: number, minInclusive: true, maxInclusive: false };
+    case '<=':
+      return { min: null, max: number, minInclusive: true, maxInclusive: true };
+    default:
+      return { min: number, max: number, minInclusive: true, maxInclusive: true };
+  }
+};
+
+const checkLimits = (field: NumericField, range: NumberRange, t: Messages): string | null => {
+  const limits = NUMERIC_LIMITS[field];
+  const bounds = [range.min, range.max].filter((bound): bound is number => bound !== null);
+  if (limits.integer && bounds.some(bound => !Number.isInteger(bound))) return t.search.integerRequired(field);
+  if (bounds.some(bound => bound < limits.min || bound > limits.max)) return t.search.outOfBounds(field, limits.min, limits.max);
+  return null;
+};
+
+export const parseSearchQuery = (query: string, t: Messages): ParsedSearchQuery => {
+  const terms: SearchTerm[] = [];
+  const errors: SearchQueryError[] = [];
+
+  tokenize(query).forEach(token => {
+    const parts = splitToken(token.raw);
+    const fail = (message: string, start = token.start, end = token.end) => errors.push({ start, end, message });
+
+    if ((parts.value.match(/"/g) || []).length % 2 === 1) {
+      fail(t.search.unterminatedQuote);
+      return;
+    }
+    const value = parts.value.replace(/"/g, '');
+
+    if (parts.field === null) {
+      if (value.trim() !== '') terms.push({ field: null, negated: parts.negated, text: normalizeText(value), range: null });
+      return;
+    }
+    if (!isSearchField(parts.field)) {
+      fail(t.search.unknownField(parts.field, SEARCH_FIELDS.join(', ')), token.start, token.start + parts.valueOffset);
+      return;
+    }
+    if (value.trim() === '') {
+      fail(t.search.missingValue(parts.field));
+      return;
+    }
+
+    const field = parts.field;
+    if (isNumericField(field)) {
+      const range = parseRange(value.trim(), t);
+      if (typeof range === 'string') {
+        fail(range, token.start + parts.valueOffset, token.end);
+        return;
+      }
+      const problem = checkLimits(field, range, t);
+      if (problem) {
+        fail(problem, token.start + parts.valueOffset, token.end);
+        return;
+      }
+      terms.push({ field, negated: parts.negated, text: '', range });
+      return;
+    }
+    terms.push({ field, negated: parts.negated, text: normalizeText(value), range: null });
+  });
+
+  return { terms, errors };
+};
+
+const inRange = (value: number | null, range: NumberRange) => {
+  if (value === null) return false;
+  if (range.min !== null && (range.minInclusive ? value < range.min : value <= range.min)) return false;
+  if (range.max !== null && (range.maxInclusive ? value > range.max : value >= range.max)) return false;
+  return true;
+};
+
+const includesText = (values: string[], text: string) => values.some(value => normalizeText(value).includes(text));
+
+const matchesTerm = (title: Title, term: SearchTerm): boolean => {
+  switch (term.field) {
+    case null:
+    case 'title':
+      return includesText(title.originalTitle ? [title.title, title.originalTitle] : [title.title], term.text);
+    case 'director':
+      return includesText(title.directors, term.text);
+    case 'cast':
+      return includesText(title.cast, term.text);
+    case 'genre':
+      // The IMDb name and its name in every language are accepted, whichever language is shown.
+      return title.genres.some(genre => includesText(genreNames(genre), term.text));
+    case 'type':
+      return includesText(titleTypeNames(title.titleType), term.text);
+    case 'year':
+      return inRange(title.year, term.range!);
+    case 'rating':
+      return inRange(title.yourRating, term.range!);
+    case 'imdb':
+      return inRange(title.imdbRating, term.range!);
+    case 'runtime':
+      return inRange(title.runtimeMinutes, term.range!);
+  }
+};
+
+export const matchesSearchQuery = (title: Title, query: ParsedSearchQuery) =>
+  query.terms.every(term => matchesTerm(title, term) !== term.negated);
+
+export interface SearchQueryResult {
+  titles: Title[];
+  // Index words matched by the free text, for highlighting.
+  matchedTokens: Set<string>;
+}
+
+const isFreeText = (term: SearchTerm) => term.field === null && !term.negated;
+
+// Free text goes through the fuzzy index and keeps its relevance order; without it the
+// titles matching the field terms are listed by rating.
+export const searchTitles = (titles: Title[], query: ParsedSearchQuery, index: TitleSearchIndex): SearchQueryResult => {
+  if (query.terms.length === 0) return { titles: [], matchedTokens: new Set() };
+  const filters = { ...query, terms: query.terms.filter(term => !isFreeText(term)) };
+  const freeText = query.terms.filter(isFreeText).map(term => term.text).join(' ');
+
+  if (freeText === '') {
+    const matches = titles.filter(title => matchesSearchQuery(title, filters));
+    return { titles: matches.sort((a, b) => (b.yourRating ?? 0) - (a.yourRating ?? 0)), matchedTokens: new Set() };
+  }
+
+  const allowed = new Set(titles.map(title => title.id));
+  const { hits, matchedTokens } = index.search(freeText);
+  return {
+    titles: hits.map(hit => hit.title).filter(title => allowed.has(title.id) && matchesSearchQuery(title, filters)),
+    matchedTokens,
+  };
+};
+
+// Values offered by autocomplete, most frequent first.
+export interface QueryVocabulary {
+  director: string[];
+  cast: string[];
+  genre: string[];
+  type: string[];
+}
+
+const byFrequency = (counts: Map<string, number>) =>
+  Array.from(counts.entries()).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).map(([value]) => value);
+
+export const buildQueryVocabulary = (titles: Title[], t: Messages): QueryVocabulary => {
+  const counters = { director: new Map<string, number>(), cast: new Map<string, number>(), genre: new Map<string, number>(), type: new Map<string, number>() };
+  const add = (counts: Map<string, number>, value: string) => counts.set(value, (counts.get(value) || 0) + 1);
+  titles.forEach(title => {
+    title.directors.forEach(name => add(counters.director, name));
+    title.cast.forEach(name => add(counters.cast, name));
+    title.genres.forEach(genre => add(counters.genre, genreLabel(t, genre)));
+    add(counters.type, title.titleType);
+  });
+  return {
+    director: byFrequency(counters.director),
+    cast: byFrequency(counters.cast),
+    genre: byFrequency(counters.genre),
+    type: byFrequency(counters.type),
+  };
+};
+
+const quoteIfNeeded = (value: string) => (/\s/.test(value) ? `"${value}"` : value);
+
+// Completes the token under the caret: field names first, then values once a field is typed.
+export const suggestCompletions = (
+  query: string,
+  caret: number,
+  vocabulary: QueryVocabulary,
+  t: Messages,
+  limit = 8
+): SearchSuggestion[] => {
+  const token = tokenize(query).find(candidate => candidate.start <= caret && caret <= candidate.end);
+  if (!token) return [];
+
+  const parts = splitToken(query.slice(token.start, caret));
+  const sign = parts.negated ? '-' : '';
+
+  if (parts.field === null) {
+    const prefix = parts.value.toLowerCase();
+    if (prefix === '' || prefix.includes('"')) return [];
+    return SEARCH_FIELDS
+      .filter(field => field.startsWith(prefix) && field !== prefix)
+      .slice(0, limit)
+      .map(field => ({ label: `${field}:`, detail: t.search.fields[field], replacement: `${sign}${field}:`, start: token.start, end: token.end }));
+  }
+
+  if (!isSearchField(parts.field) || !(parts.field in vocabulary)) return [];
+  const field = parts.field as keyof QueryVocabulary;
+  const partial = parts.value.replace(/"/g, '').toLowerCase();
+  const values = vocabulary[field];
+  const starts = values.filter(value => value.toLowerCase().startsWith(partial));
+  const contains = partial === '' ? [] : values.filter(value => !value.toLowerCase().startsWith(partial) && value.toLowerCase().includes(partial));
+
+  return [...starts, ...contains]
+    .filter(value => value.toLowerCase() !== partial)
+    .slice(0, limit)
+    .map(value => ({
+      label: value,
+      detail: field === 'type' ? t.titleTypes[value as TitleType] ?? '' : t.search.fields[field],
+      replacement: `${sign}${field}:${quoteIfNeeded(value)}`,
+      start: token.start,
+      end: token.end,
+    }));
+};
@@ -0,0 +1,78 @@
+import { Annotations, ExportKind, SortOption, Title } from '../types';
+import { annotationFor } from './annotations';
+import { collatorFor } from './i18n';
+
+export const SORT_OPTIONS: SortOption[] = [
+  'rating_desc', 'rating_asc', 'imdb_rating_desc', 'imdb_rating_asc', 'title_asc', 'title_desc',
+  'original_title_asc', 'original_title_desc', 'year_desc', 'year_asc', 'rated_date_desc', 'rated_date_asc',
+  'runtime_asc', 'runtime_desc', 'created_desc', 'created_asc', 'tags_asc', 'favourites_first', 'rewatch_first',
+];
+
+export const isSortOption = (value: string): value is SortOption => (SORT_OPTIONS as string[]).includes(value);
+
+// Watchlists have no ratings of their own, so they are sorted by IMDb's rating instead.
+export const defaultSortFor = (mode: ExportKind, hasImdbRating: boolean): SortOption =>
+  mode === 'list' ? (hasImdbRating ? 'imdb_rating_desc' : 'title_asc') : 'rating_desc';
+
+// Untagged titles go last; tagged ones are ordered by their tags as written, first tag first.
+const compareTags = (a: string[], b: string[], compareText: (a: string, b: string) => number): number => {
+  if (a.length === 0 || b.length === 0) return b.length - a.length;
+  return compareText(a.join(', '), b.join(', '));
+};
+
+const compareTitles = (
+  a: Title,
+  b: Title,
+  sortBy: SortOption,
+  compareText: (a: string, b: string) => number,
+  annotations: Annotations
+): number => {
+  switch (sortBy) {
+    case 'rating_asc':
+      return (a.yourRating ?? 0) - (b.yourRating ?? 0);
+    case 'title_asc':
+      return compareText(a.title, b.title);
+    case 'title_desc':
+      return compareText(b.title, a.title);
+    case 'original_title_asc':
+      return compareText(a.originalTitle || a.title, b.originalTitle || b.title);
+    case 'original_title_desc':
+      return compareText(b.originalTitle || b.title, a.originalTitle || a.title);
+    case 'year_desc':
+      return (b.year ?? 0) - (a.year ?? 0);
+    case 'year_asc':
+      return (a.year ?? 0) - (b.year ?? 0);
+    case 'rated_date_desc':
+      return (b.dateRated?.getTime() ?? 0) - (a.dateRated?.getTime() ?? 0);
+    case 'rated_date_asc':
+      return (a.dateRated?.getTime() ?? 0) - (b.dateRated?.getTime() ?? 0);
+    case 'imdb_rating_desc':
+      return (b.imdbRating ?? 0) - (a.imdbRating ?? 0);
+    case 'imdb_rating_asc':
+      return (a.imdbRating ?? 0) - (b.imdbRating ?? 0);
+    case 'runtime_asc':
+      return (a.runtimeMinutes ?? 0) - (b.runtimeMinutes ?? 0);
+    case 'runtime_desc':
+      return (b.runtimeMinutes ?? 0) - (a.runtimeMinutes ?? 0);
+    case 'created_desc':
+      return (b.created?.getTime() ?? 0) - (a.created?.getTime() ?? 0);
+    case 'created_asc':
+      return (a.created?.getTime() ?? 0) - (b.created?.getTime() ?? 0);
+    case 'tags_asc':
+      return compareTags(annotationFor(annotations, a.id).tags, annotationFor(annotations, b.id).tags, compareText);
+    case 'favourites_first':
+      return Number(annotationFor(annotations, b.id).favourite) - Number(annotationFor(annotations, a.id).favourite);
+    case 'rewatch_first':
+      return Number(annotationFor(annotations, b.id).rewatch) - Number(annotationFor(annotations, a.id).rewatch);
+    case 'rating_desc':
+    default:
+      return (b.yourRating ?? 0) - (a.yourRating ?? 0);
+  }
+};
+
+// Titles are collated by the UI language, so e.g. Swedish puts Å, Ä and Ö after Z. The sorts by
+// tag and flag keep the current order within each group.
+export const sortTitles = (titles: Title[], sortBy: SortOption, languageTag: string, annotations: Annotations): Title[] => {
+  const { compare } = collatorFor(languageTag);
+  return [...titles].sort((a, b) => compareTitles(a, b, sortBy, compare, annotations));
+};
@@ -0,0 +1,56 @@
+import { ExportFile } from './exportTitles';
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// Every rule the page's stylesheets hold, including the ones Tailwind generates at runtime.
+// Stylesheets from other origins cannot be read and are left out.
+const pageCss = (): string =>
+  Array.from(document.styleSheets)
+    .map(sheet => {
+      try {
+        return Array.from(sheet.cssRules, rule => rule.cssText).join('\n');
+      } catch {
+        return '';
+      }
+    })
+    .join('\n');
+
+// A copy of the element as a page of its own, with the CSS inlined so it looks the same when
+// opened offline. Charts are SVG and come along as they are drawn.
+export const standaloneHtml = (element: HTMLElement, title: string, languageTag: string): ExportFile => ({
+  content: `<!DOCTYPE html>
+<html lang="${escapeHtml(languageTag)}">
+<head>
+<meta charset="UTF-8" />
+<meta name="viewport" content="width=device-width, initial-scale=1.0" />
+<title>${escapeHtml(title)}</title>
+<style>
+${pageCss()}
+body { margin: 0; padding: 1rem; background: #0f172a; color: #e2e8f0; }
+@media print { body { -webkit-print-color-adjust: exact; print-color-adjust: exact; } }
+</style>
+</head>
+<body>
+${element.outerHTML}
+</body>
+</html>
+`,
+  mimeType: 'text/html',
+  extension: 'html',
+});
+
+// Opens the page in a new tab and brings up the print dialog once it has loaded.
+export const printHtml = (file: ExportFile) => {
+  const url = URL.createObjectURL(new Blob([file.content], { type: `${file.mimeType};charset=utf-8` }));
+  const page = window.open(url, '_blank');
+  if (!page) {
+    URL.revokeObjectURL(url);
+    return false;
+  }
+  page.addEventListener('load', () => {
+    page.print();
+    URL.revokeObjectURL(url);
+  });
+  return true;
+};
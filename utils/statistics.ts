@@ -0,0 +1,101 @@
+import { CorrelatedField, Correlation, PercentileSummary, RatingBin, RatingSummary, StatsSummary, TensPoint, Title } from '../types';
+
+export const PERCENTILES = [10, 25, 50, 75, 90];
+
+// Fewer pairs than this give a correlation that says nothing.
+const MIN_CORRELATION_PAIRS = 3;
+
+const CORRELATED_FIELDS: { field: CorrelatedField; value: (title: Title) => number | null }[] = [
+  { field: 'year', value: title => title.year },
+  { field: 'runtime', value: title => title.runtimeMinutes },
+  { field: 'imdbRating', value: title => title.imdbRating },
+];
+
+export const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+// Linear interpolation between the closest ranks; values must be sorted ascending.
+export const percentile = (sorted: number[], p: number) => {
+  const position = (sorted.length - 1) * (p / 100);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+export const standardDeviation = (values: number[]) => {
+  const average = mean(values);
+  return Math.sqrt(mean(values.map(value => (value - average) ** 2)));
+};
+
+// null when either side never varies, as r is undefined then.
+export const pearson = (pairs: [number, number][]): number | null => {
+  const meanX = mean(pairs.map(([x]) => x));
+  const meanY = mean(pairs.map(([, y]) => y));
+  let covariance = 0;
+  let varianceX = 0;
+  let varianceY = 0;
+  pairs.forEach(([x, y]) => {
+    covariance += (x - meanX) * (y - meanY);
+    varianceX += (x - meanX) ** 2;
+    varianceY += (y - meanY) ** 2;
+  });
+  return varianceX === 0 || varianceY === 0 ? null : covariance / Math.sqrt(varianceX * varianceY);
+};
+
+// Every rating from 1 to 10, including the ones never given. A rating outside that range is left out.
+export const ratingHistogram = (titles: Title[]): RatingBin[] => {
+  const bins = Array.from({ length: 10 }, (_, index) => ({ rating: index + 1, count: 0 }));
+  titles.forEach(title => {
+    const bin = title.yourRating !== null ? bins[title.yourRating - 1] : undefined;
+    if (bin) bin.count++;
+  });
+  return bins;
+};
+
+const summarizeRatings = (ratings: number[]): RatingSummary | null => {
+  if (ratings.length === 0) return null;
+  const sorted = [...ratings].sort((a, b) => a - b);
+  return { count: ratings.length, mean: mean(ratings), median: percentile(sorted, 50), standardDeviation: standardDeviation(ratings) };
+};
+
+const percentiles = (values: number[]): PercentileSummary | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  return { count: values.length, values: PERCENTILES.map(p => percentile(sorted, p)) };
+};
+
+const correlations = (rated: Title[]): Correlation[] =>
+  CORRELATED_FIELDS.flatMap(({ field, value }) => {
+    const pairs = rated
+      .filter(title => value(title) !== null)
+      .map((title): [number, number] => [title.yourRating!, value(title)!]);
+    const r = pairs.length >= MIN_CORRELATION_PAIRS ? pearson(pairs) : null;
+    return r === null ? [] : [{ field, r, pairs: pairs.length }];
+  });
+
+// The share of each year's ratings that were 10, by the year they were given.
+const tensByYearRated = (rated: Title[]): TensPoint[] => {
+  const years = new Map<number, { rated: number; tens: number }>();
+  rated.forEach(title => {
+    if (!title.dateRated) return;
+    const year = title.dateRated.getFullYear();
+    const entry = years.get(year) ?? { rated: 0, tens: 0 };
+    entry.rated++;
+    if (title.yourRating === 10) entry.tens++;
+    years.set(year, entry);
+  });
+  return Array.from(years.entries())
+    .sort((a, b) => a[0] - b[0])
+    .map(([year, { rated, tens }]) => ({ year, rated, tens, share: (tens / rated) * 100 }));
+};
+
+export const buildStatsSummary = (titles: Title[]): StatsSummary => {
+  const rated = titles.filter(title => title.yourRating !== null);
+  return {
+    histogram: ratingHistogram(rated),
+    rating: summarizeRatings(rated.map(title => title.yourRating!)),
+    releaseYear: percentiles(titles.filter(title => title.year !== null).map(title => title.year!)),
+    runtime: percentiles(titles.filter(title => title.runtimeMinutes !== null).map(title => title.runtimeMinutes!)),
+    correlations: correlations(rated),
+    tensByYearRated: tensByYearRated(rated),
+  };
+};
@@ -0,0 +1,111 @@
+import { RatingStreak, TimelineGranularity, TimelinePoint, Title } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+export const dayKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const periodKey = (date: Date, granularity: TimelineGranularity) =>
+  granularity === 'year' ? String(date.getFullYear()) : `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+
+export const periodLabel = (period: string, granularity: TimelineGranularity, languageTag: string) => {
+  if (granularity === 'year') return period;
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString(languageTag, { month: 'short', year: 'numeric' });
+};
+
+const nextPeriod = (period: string, granularity: TimelineGranularity) => {
+  if (granularity === 'year') return String(Number(period) + 1);
+  const [year, month] = period.split('-').map(Number);
+  return month === 12 ? `${year + 1}-01` : `${year}-${pad(month + 1)}`;
+};
+
+const ratedTitles = (titles: Title[]) =>
+  titles.filter((title): title is Title & { dateRated: Date } => title.dateRated !== null);
+
+// Ratings per period from the first to the last rating, with empty periods filled in so the
+// x-axis reflects real time.
+export const buildTimeline = (
+  titles: Title[],
+  granularity: TimelineGranularity,
+  rollingWindow: number,
+  languageTag: string
+): TimelinePoint[] => {
+  const buckets = new Map<string, { count: number; ratingSum: number; ratedCount: number }>();
+  ratedTitles(titles).forEach(title => {
+    const key = periodKey(title.dateRated, granularity);
+    const bucket = buckets.get(key) || { count: 0, ratingSum: 0, ratedCount: 0 };
+    bucket.count++;
+    if (title.yourRating !== null) {
+      bucket.ratingSum += title.yourRating;
+      bucket.ratedCount++;
+    }
+    buckets.set(key, bucket);
+  });
+  if (buckets.size === 0) return [];
+
+  const keys = Array.from(buckets.keys()).sort();
+  const last = keys[keys.length - 1];
+  const periods: string[] = [];
+  for (let period = keys[0]; period <= last; period = nextPeriod(period, granularity)) {
+    periods.push(period);
+  }
+
+  return periods.map((period, index) => {
+    const bucket = buckets.get(period);
+    let windowSum = 0;
+    let windowCount = 0;
+    periods.slice(Math.max(0, index - rollingWindow + 1), index + 1).forEach(windowPeriod => {
+      const windowBucket = buckets.get(windowPeriod);
+      if (windowBucket) {
+        windowSum += windowBucket.ratingSum;
+        windowCount += windowBucket.ratedCount;
+      }
+    });
+    return {
+      period,
+      label: periodLabel(period, granularity, languageTag),
+      count: bucket?.count ?? 0,
+      average: bucket && bucket.ratedCount > 0 ? bucket.ratingSum / bucket.ratedCount : null,
+      rollingAverage: windowCount > 0 ? windowSum / windowCount : null,
+    };
+  });
+};
+
+export const countRatingsPerDay = (titles: Title[]): Map<string, number> => {
+  const counts = new Map<string, number>();
+  ratedTitles(titles).forEach(title => {
+    const key = dayKey(title.dateRated);
+    counts.set(key, (counts.get(key) || 0) + 1);
+  });
+  return counts;
+};
+
+// Runs of consecutive calendar days with at least one rating, longest first.
+export const findLongestStreaks = (titles: Title[], limit: number): RatingStreak[] => {
+  const days = Array.from(new Set(ratedTitles(titles).map(title => {
+    const date = title.dateRated;
+    return new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+  }))).sort((a, b) => a - b);
+
+  const streaks: RatingStreak[] = [];
+  let start = 0;
+  for (let i = 1; i <= days.length; i++) {
+    // Rounding absorbs the hour lost or gained at daylight saving changes.
+    const isConsecutive = i < days.length && Math.round((days[i] - days[i - 1]) / DAY_MS) === 1;
+    if (!isConsecutive) {
+      streaks.push({ start: new Date(days[start]), end: new Date(days[i - 1]), days: i - start });
+      start = i;
+    }
+  }
+
+  return streaks
+    .sort((a, b) => b.days - a.days || b.end.getTime() - a.end.getTime())
+    .slice(0, limit);
+};
+
+export const titlesRatedIn = (titles: Title[], period: string, granularity: TimelineGranularity | 'day') =>
+  ratedTitles(titles).filter(title =>
+    (granularity === 'day' ? dayKey(title.dateRated) : periodKey(title.dateRated, granularity)) === period
+  );
@@ -0,0 +1,33 @@
+import { Title, TitleRank } from '../types';
+
+// Competition ranking by your rating; null for a title you have not rated.
+export const rankTitle = (title: Title, titles: Title[]): TitleRank | null => {
+  if (title.yourRating === null) return null;
+  let higher = 0;
+  let same = 0;
+  let total = 0;
+  titles.forEach(other => {
+    if (other.yourRating === null) return;
+    total++;
+    if (other.yourRating > title.yourRating!) higher++;
+    else if (other.yourRating === title.yourRating && other.id !== title.id) same++;
+  });
+  return { rank: higher + 1, total, tied: same };
+};
+
+// Titles sharing at least one director, oldest first.
+export const titlesBySameDirector = (title: Title, titles: Title[]): Title[] => {
+  if (title.directors.length === 0) return [];
+  const directors = new Set(title.directors);
+  return titles
+    .filter(other => other.id !== title.id && other.directors.some(name => directors.has(name)))
+    .sort((a, b) => (a.year ?? 0) - (b.year ?? 0));
+};
+
+// Titles released the same year that you have rated, best rated first.
+export const ratedTitlesFromSameYear = (title: Title, titles: Title[]): Title[] => {
+  if (title.year === null) return [];
+  return titles
+    .filter(other => other.id !== title.id && other.year === title.year && other.yourRating !== null)
+    .sort((a, b) => (b.yourRating ?? 0) - (a.yourRating ?? 0) || (b.imdbRating ?? 0) - (a.imdbRating ?? 0));
+};
@@ -0,0 +1,84 @@
+import { Annotations, SortOption, Title, TitleFilters } from '../types';
+import { applyFilters } from './filters';
+import { sortTitles } from './sortTitles';
+
+// Above this many titles, filtering and sorting run in a Web Worker to keep typing responsive.
+export const WORKER_THRESHOLD = 5000;
+
+export interface TitleQueryResult {
+  // Titles passing every filter, in list order.
+  filtered: Title[];
+  // Titles passing every filter but the year range, for the year chart's brush.
+  withoutYear: Title[];
+}
+
+export const runTitleQuery = (
+  titles: Title[],
+  filters: TitleFilters,
+  sortBy: SortOption,
+  languageTag: string,
+  annotations: Annotations
+): TitleQueryResult => ({
+  filtered: sortTitles(applyFilters(titles, filters, annotations), sortBy, languageTag, annotations),
+  withoutYear: applyFilters(titles, filters, annotations, { ignoreYear: true }),
+});
+
+export interface TitleQueryRequest {
+  id: number;
+  filters: TitleFilters;
+  sortBy: SortOption;
+  languageTag: string;
+  annotations: Annotations;
+}
+
+// The worker answers with positions in the title array it was given, which are cheap to send back.
+export interface TitleQueryResponse {
+  id: number;
+  filtered: Int32Array;
+  withoutYear: Int32Array;
+}
+
+export interface TitleQueryRunner {
+  query: (filters: TitleFilters, sortBy: SortOption, languageTag: string, annotations: Annotations) => Promise<TitleQueryResult>;
+  dispose: () => void;
+}
+
+// Sends the titles to a worker once and then runs each query there. Only the latest
+// query is answered; one overtaken by a newer query never settles.
+export const createTitleQueryRunner = (titles: Title[]): TitleQueryRunner => {
+  const worker = new Worker(new URL('./titleQuery.worker.ts', import.meta.url), { type: 'module' });
+  let nextId = 0;
+  let pending: { id: number; resolve: (result: TitleQueryResult) => void; reject: (error: Error) => void } | null = null;
+
+  worker.postMessage(titles);
+
+  worker.onmessage = (event: MessageEvent<TitleQueryResponse>) => {
+    if (!pending || event.data.id !== pending.id) return;
+    const { resolve } = pending;
+    pending = null;
+    resolve({
+      filtered: Array.from(event.data.filtered, index => titles[index]),
+      withoutYear: Array.from(event.data.withoutYear, index => titles[index]),
+    });
+  };
+
+  worker.onerror = (event) => {
+    pending?.reject(new Error(event.message || 'Title query worker failed'));
+    pending = null;
+  };
+
+  const query = (filters: TitleFilters, sortBy: SortOption, languageTag: string, annotations: Annotations) =>
+    new Promise<TitleQueryResult>((resolve, reject) => {
+      const id = ++nextId;
+      pending = { id, resolve, reject };
+      const request: TitleQueryRequest = { id, filters, sortBy, languageTag, annotations };
+      worker.postMessage(request);
+    });
+
+  const dispose = () => {
+    pending = null;
+    worker.terminate();
+  };
+
+  return { query, dispose };
+};
@@ -0,0 +1,20 @@
+import { Title } from '../types';
+import { runTitleQuery, TitleQueryRequest, TitleQueryResponse } from './titleQuery';
+
+// The first message carries the titles; every later one is a query against them.
+let titles: Title[] = [];
+let positions = new Map<Title, number>();
+
+const toPositions = (list: Title[]) => Int32Array.from(list, title => positions.get(title)!);
+
+self.onmessage = (event: MessageEvent<Title[] | TitleQueryRequest>) => {
+  if (Array.isArray(event.data)) {
+    titles = event.data;
+    positions = new Map(titles.map((title, index) => [title, index]));
+    return;
+  }
+  const { id, filters, sortBy, languageTag, annotations } = event.data;
+  const result = runTitleQuery(titles, filters, sortBy, languageTag, annotations);
+  const response: TitleQueryResponse = { id, filtered: toPositions(result.filtered), withoutYear: toPositions(result.withoutYear) };
+  (self as unknown as Worker).postMessage(response, [response.filtered.buffer, response.withoutYear.buffer]);
+};
@@ -0,0 +1,95 @@
+import { AnnotationFlag, ChartSelection, PersonRole, SortOption, TitleFilters } from '../types';
+import { ANNOTATION_FLAGS } from './annotations';
+import { CHART_DIMENSIONS } from './chartData';
+import { createEmptyFilters } from './filters';
+import { isSortOption } from './sortTitles';
+
+// What a shared link restores. The titles themselves never leave the browser, so a link
+// is applied to whatever file the recipient has imported.
+export interface ViewState {
+  filters: TitleFilters;
+  // null means the default order for the loaded export.
+  sortBy: SortOption | null;
+  searchTerm: string;
+  selectedGroup: ChartSelection | null;
+}
+
+const isFlag = (value: string): value is AnnotationFlag => (ANNOTATION_FLAGS as string[]).includes(value);
+
+const isPersonRole = (value: string): value is PersonRole => value === 'director' || value === 'cast';
+
+const isDimension = (value: string): value is ChartSelection['dimension'] =>
+  (CHART_DIMENSIONS as string[]).includes(value);
+
+// Filters, sort and search go in the query string; the open chart group goes in the hash.
+export const readViewState = (search: string, hash: string): ViewState => {
+  const query = new URLSearchParams(search);
+  const fragment = new URLSearchParams(hash.replace(/^#/, ''));
+
+  const filters = createEmptyFilters();
+  query.getAll('genre').forEach(genre => filters.genres.add(genre));
+  (query.get('rating') || '').split(',').forEach(value => {
+    const rating = Number(value);
+    if (value !== '' && Number.isInteger(rating) && rating >= 1 && rating <= 10) filters.ratings.add(rating);
+  });
+  filters.yearRange = { min: query.get('from') || '', max: query.get('to') || '' };
+  filters.director = query.get('director') || '';
+  filters.cast = query.get('cast') || '';
+  query.getAll('source').forEach(source => filters.sources.add(source));
+  query.getAll('tag').forEach(tag => filters.tags.add(tag));
+  query.getAll('flag').filter(isFlag).forEach(flag => filters.flags.add(flag));
+  // person=director:Ingmar Bergman; the name may itself contain colons.
+  const person = query.get('person') || '';
+  const role = person.substring(0, person.indexOf(':'));
+  if (isPersonRole(role) && person.length > role.length + 1) filters.person = { role, name: person.substring(role.length + 1) };
+
+  const sort = query.get('sort') || '';
+  const group = fragment.get('group') || '';
+  const separator = group.indexOf(':');
+  const dimension = group.substring(0, separator);
+
+  return {
+    filters,
+    sortBy: isSortOption(sort) ? sort : null,
+    searchTerm: query.get('q') || '',
+    selectedGroup: separator > 0 && isDimension(dimension) ? { dimension, key: group.substring(separator + 1) } : null,
+  };
+};
+
+// Commas and colons are safe in query values, and leaving them unescaped keeps shared links legible.
+const readable = (params: URLSearchParams) => params.toString().replace(/%2C/g, ',').replace(/%3A/g, ':');
+
+// Returns the "?query#hash" part of the URL; empty when nothing differs from the defaults.
+export const viewStateToUrl = (state: ViewState): string => {
+  const query = new URLSearchParams();
+  const { filters } = state;
+  Array.from(filters.genres).sort().forEach(genre => query.append('genre', genre));
+  if (filters.ratings.size > 0) query.set('rating', Array.from(filters.ratings).sort((a, b) => b - a).join(','));
+  if (filters.yearRange.min) query.set('from', filters.yearRange.min);
+  if (filters.yearRange.max) query.set('to', filters.yearRange.max);
+  if (filters.director) query.set('director', filters.director);
+  if (filters.cast) query.set('cast', filters.cast);
+  Array.from(filters.sources).sort().forEach(source => query.append('source', source));
+  Array.from(filters.tags).sort().forEach(tag => query.append('tag', tag));
+  ANNOTATION_FLAGS.filter(flag => filters.flags.has(flag)).forEach(flag => query.append('flag', flag));
+  if (filters.person) query.set('person', `${filters.person.role}:${filters.person.name}`);
+  if (state.sortBy) query.set('sort', state.sortBy);
+  if (state.searchTerm) query.set('q', state.searchTerm);
+
+  const fragment = new URLSearchParams();
+  if (state.selectedGroup) fragment.set('group', `${state.selectedGroup.dimension}:${state.selectedGroup.key}`);
+
+  const queryString = readable(query);
+  const hashString = readable(fragment);
+  return `${queryString ? `?${queryString}` : ''}${hashString ? `#${hashString}` : ''}`;
+};
+
+const withoutTypedFields = (state: ViewState): ViewState => ({
+  ...state,
+  searchTerm: '',
+  filters: { ...state.filters, director: '', cast: '', yearRange: { min: '', max: '' } },
+});
+
+// Typing in a text field replaces the current history entry instead of adding one per keystroke.
+export const isTypedChange = (previous: ViewState, next: ViewState) =>
+  viewStateToUrl(withoutTypedFields(previous)) === viewStateToUrl(withoutTypedFields(next));
@@ -0,0 +1,66 @@
+import { NamedCount, Title, YearInReview, YearSummary } from '../types';
+
+const TOP_COUNT = 10;
+const BOTTOM_COUNT = 5;
+
+// Years you rated anything in, newest first. Dates without a rating, as in a diary or a watch history, do not count.
+export const yearsRated = (titles: Title[]): number[] =>
+  Array.from(new Set(
+    titles.filter(title => title.yourRating !== null && title.dateRated).map(title => title.dateRated!.getFullYear())
+  )).sort((a, b) => b - a);
+
+const ratedInYear = (titles: Title[], year: number) =>
+  titles.filter(title => title.yourRating !== null && title.dateRated?.getFullYear() === year);
+
+// The name found on the most titles; ties go to the name first in alphabetical order.
+const mostCommon = (names: string[]): NamedCount | null => {
+  const counts = new Map<string, number>();
+  names.forEach(name => counts.set(name, (counts.get(name) || 0) + 1));
+  let best: NamedCount | null = null;
+  for (const [name, count] of counts) {
+    if (!best || count > best.count || (count === best.count && name.localeCompare(best.name) < 0)) best = { name, count };
+  }
+  return best;
+};
+
+const summarize = (titles: Title[], year: number): YearSummary => {
+  const ratings = titles.map(title => title.yourRating!);
+  return {
+    year,
+    count: titles.length,
+    average: ratings.length > 0 ? ratings.reduce((sum, rating) => sum + rating, 0) / ratings.length : null,
+    totalRuntime: titles.reduce((sum, title) => sum + (title.runtimeMinutes ?? 0), 0),
+    topGenre: mostCommon(titles.flatMap(title => title.genres)),
+    topDirector: mostCommon(titles.flatMap(title => title.directors)),
+  };
+};
+
+// IMDb's rating breaks ties between equal ratings of your own, then the order you rated them in.
+const byRatingDesc = (a: Title, b: Title) =>
+  b.yourRating! - a.yourRating! ||
+  (b.imdbRating ?? 0) - (a.imdbRating ?? 0) ||
+  a.dateRated!.getTime() - b.dateRated!.getTime();
+
+const isOlder = (a: Title, b: Title) =>
+  a.year! < b.year! ||
+  (a.year === b.year && (a.releaseDate?.getTime() ?? Infinity) < (b.releaseDate?.getTime() ?? Infinity));
+
+export const buildYearInReview = (titles: Title[], year: number): YearInReview => {
+  const rated = ratedInYear(titles, year).sort(byRatingDesc);
+  const top = rated.slice(0, TOP_COUNT);
+  // Taken from the whole year, so a year with few titles still has both lists even though they share titles.
+  const bottom = rated.slice(-BOTTOM_COUNT).reverse();
+  const oldest = rated
+    .filter(title => title.year !== null)
+    .reduce<Title | null>((current, title) => (current === null || isOlder(title, current) ? title : current), null);
+  const previousTitles = ratedInYear(titles, year - 1);
+
+  return {
+    ...summarize(rated, year),
+    titles: rated,
+    top,
+    bottom,
+    oldest,
+    previous: previousTitles.length > 0 ? summarize(previousTitles, year - 1) : null,
+  };
+};